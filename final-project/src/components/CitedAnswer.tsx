@@ -0,0 +1,80 @@
+import type { ReactNode } from 'react';
+import { cn } from '../lib/utils';
+import type { Citation, GroundedAnswer } from '../lib/answer';
+
+interface CitedAnswerProps {
+  answer: GroundedAnswer;
+  selected: Citation | null;
+  onSelect: (citation: Citation) => void;
+}
+
+/**
+ * Renders an answer with a numbered marker after every cited claim. Selecting
+ * a marker highlights the claim it belongs to.
+ */
+export function CitedAnswer({ answer, selected, onSelect }: CitedAnswerProps) {
+  const parts: ReactNode[] = [];
+  let position = 0;
+
+  const claimEnds = Array.from(new Set(answer.citations.map(c => c.end))).sort((a, b) => a - b);
+  for (const end of claimEnds) {
+    const citations = answer.citations.filter(c => c.end === end);
+    const start = Math.max(position, citations[0].start);
+    const isSelected = selected !== null && citations.some(c => c === selected);
+
+    parts.push(answer.text.slice(position, start));
+    parts.push(
+      <span key={`claim-${end}`} className={cn(isSelected && "bg-indigo-500/20 rounded")}>
+        {answer.text.slice(start, end)}
+      </span>
+    );
+    for (const citation of citations) {
+      parts.push(<CitationMarker key={`${end}-${citation.number}`} citation={citation} selected={selected} onSelect={onSelect} />);
+    }
+    position = end;
+  }
+  parts.push(answer.text.slice(position));
+
+  return <>{parts}</>;
+}
+
+export function CitationMarker({ citation, selected, onSelect }: { citation: Citation } & Omit<CitedAnswerProps, 'answer'>) {
+  return (
+    <button
+      onClick={() => onSelect(citation)}
+      title={citation.explicit ? `Cited passage ${citation.number}` : `Matched to passage ${citation.number} by shared wording`}
+      className={cn(
+        "align-super text-[9px] font-bold ml-0.5 px-1 rounded transition-colors",
+        citation === selected ? "bg-indigo-500 text-white" : "text-indigo-500 hover:bg-indigo-500/20",
+        !citation.explicit && "italic"
+      )}
+    >
+      {citation.number}
+    </button>
+  );
+}
+
+/**
+ * Renders chunk content with the quoted spans of its citations marked.
+ */
+export function QuotedContent({ content, citations }: { content: string; citations: Citation[] }) {
+  const quotes = citations
+    .filter((c): c is Citation & { chunkStart: number; chunkEnd: number } => c.chunkStart !== undefined && c.chunkEnd !== undefined)
+    .sort((a, b) => a.chunkStart - b.chunkStart);
+
+  const parts: ReactNode[] = [];
+  let position = 0;
+  for (const quote of quotes) {
+    if (quote.chunkStart < position) continue;
+    parts.push(content.slice(position, quote.chunkStart));
+    parts.push(
+      <mark key={quote.chunkStart} className="bg-indigo-500/20 text-foreground rounded px-0.5">
+        {content.slice(quote.chunkStart, quote.chunkEnd)}
+      </mark>
+    );
+    position = quote.chunkEnd;
+  }
+  parts.push(content.slice(position));
+
+  return <>{parts}</>;
+}
@@ -9,6 +9,8 @@ import { useAI } from '../context/AIContext';
 import { Sparkles, Database, Home, Sun, Moon } from 'lucide-react';
 import { cn } from '../lib/utils';
 import { Button } from './ui/button';
+import { CollectionSwitcher } from './CollectionSwitcher';
+import { useCollections } from '../hooks/useCollections';
 
 import { IngestionService } from '../lib/ingestion';
 import { SearchService } from '../lib/search';
@@ -41,7 +43,8 @@ export function CodelabRunner() {
   const [isSandboxActive, setIsSandboxActive] = useState(false);
   const [showHome, setShowHome] = useState(true);
   const { isCompleted, markCompleted, totalCompleted } = useProgress();
-  const { status, modelProgress, isModelLoaded } = useAI();
+  const { status, modelProgress, isModelLoaded, dbError } = useAI();
+  const { activeCollection } = useCollections();
 
   const currentLesson = LESSONS.find(l => l.id === activeLessonId)!;
   const currentIndex = LESSONS.findIndex(l => l.id === activeLessonId);
@@ -111,6 +114,7 @@ export function CodelabRunner() {
            </div>
 
            <div className="flex items-center gap-4">
+              <CollectionSwitcher />
               <Button
                 variant="ghost"
                 size="icon"
@@ -119,9 +123,15 @@ export function CodelabRunner() {
               >
                 {theme === 'dark' ? <Sun className="w-4 h-4" /> : <Moon className="w-4 h-4" />}
               </Button>
-              <div className="flex items-center gap-2 px-3 py-1.5 rounded-full bg-accent border border-border text-[11px] font-bold text-muted-foreground uppercase tracking-widest">
-                 <Database className={cn("w-3.5 h-3.5", isModelLoaded ? "text-emerald-400" : "text-amber-400 animate-pulse")} />
-                 <span>{status}</span>
+              <div
+                className={cn(
+                  "flex items-center gap-2 px-3 py-1.5 rounded-full bg-accent border border-border text-[11px] font-bold text-muted-foreground uppercase tracking-widest",
+                  dbError && "border-red-500/30 text-red-500"
+                )}
+                title={dbError ?? undefined}
+              >
+                 <Database className={cn("w-3.5 h-3.5", dbError ? "text-red-500" : isModelLoaded ? "text-emerald-400" : "text-amber-400 animate-pulse")} />
+                 <span>{dbError ? 'Database Error' : status}</span>
                  {!isModelLoaded && modelProgress > 0 && (
                    <span className="text-indigo-400 ml-1">{Math.round(modelProgress)}%</span>
                  )}
@@ -132,7 +142,8 @@ export function CodelabRunner() {
         {/* Scrollable Content */}
         <main className="flex-1 overflow-y-auto custom-scrollbar relative">
           {isSandboxActive ? (
-            <Sandbox />
+            // Remounted on switching collections so nothing from the previous one is shown
+            <Sandbox key={activeCollection.id} />
           ) : (
             <LessonContent 
               filePath={currentLesson.filePath}
@@ -0,0 +1,160 @@
+import { useState } from 'react';
+import { Check, ChevronDown, Library, Loader2, Pencil, Plus, Trash2, X } from 'lucide-react';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { cn } from '../lib/utils';
+import { CollectionService, type Collection } from '../lib/collections';
+import { VectorDatabase } from '../lib/pglite';
+import { ReembedService } from '../lib/reembed';
+import { useCollections } from '../hooks/useCollections';
+
+export function CollectionSwitcher() {
+  const { collections, activeCollection } = useCollections();
+  const [isOpen, setIsOpen] = useState(false);
+  const [isSwitching, setIsSwitching] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draftName, setDraftName] = useState('');
+  const [newName, setNewName] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const attempt = async (action: () => void | Promise<void>) => {
+    setError(null);
+    try {
+      await action();
+      return true;
+    } catch (error) {
+      console.error(error);
+      setError(error instanceof Error ? error.message : String(error));
+      return false;
+    }
+  };
+
+  const switchTo = async (id: string) => {
+    if (id === activeCollection.id) return;
+    if (ReembedService.isRunning()) {
+      setError('Wait for the re-embedding job to finish or cancel it first');
+      return;
+    }
+    setIsSwitching(true);
+    if (await attempt(() => VectorDatabase.switchCollection(id))) setIsOpen(false);
+    setIsSwitching(false);
+  };
+
+  const create = async () => {
+    let collection: Collection;
+    try {
+      collection = CollectionService.create(newName);
+    } catch (error) {
+      setError(error instanceof Error ? error.message : String(error));
+      return;
+    }
+    setNewName('');
+    await switchTo(collection.id);
+  };
+
+  const saveRename = async (id: string) => {
+    if (await attempt(() => CollectionService.rename(id, draftName))) setEditingId(null);
+  };
+
+  const remove = async (collection: Collection) => {
+    if (!confirm(`Delete the collection "${collection.name}" and everything stored in it?`)) return;
+    await attempt(() => VectorDatabase.deleteCollection(collection.id));
+  };
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(open => !open)}
+        title="Active knowledge base"
+        className="flex items-center gap-2 px-3 py-1.5 rounded-full border border-border text-[11px] font-bold uppercase tracking-widest text-muted-foreground hover:text-foreground hover:bg-accent transition-colors"
+      >
+        {isSwitching ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <Library className="w-3.5 h-3.5 text-indigo-400" />}
+        <span className="max-w-40 truncate normal-case tracking-normal">{activeCollection.name}</span>
+        <ChevronDown className="w-3 h-3" />
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 top-full mt-2 w-72 bg-card border border-border rounded-xl shadow-2xl p-2 space-y-1 z-20">
+          {collections.map(collection => (
+            <div
+              key={collection.id}
+              className={cn(
+                "flex items-center gap-1 rounded-lg px-2 py-1 group",
+                collection.id === activeCollection.id ? "bg-accent" : "hover:bg-muted/50"
+              )}
+            >
+              {editingId === collection.id ? (
+                <>
+                  <Input
+                    autoFocus
+                    value={draftName}
+                    onChange={(e) => setDraftName(e.target.value)}
+                    onKeyDown={(e) => {
+                      if (e.key === 'Enter') saveRename(collection.id);
+                      if (e.key === 'Escape') setEditingId(null);
+                    }}
+                    className="h-7 text-xs bg-background/50 border-border"
+                  />
+                  <Button variant="ghost" size="icon" className="h-7 w-7 shrink-0" onClick={() => saveRename(collection.id)}>
+                    <Check className="w-3 h-3" />
+                  </Button>
+                  <Button variant="ghost" size="icon" className="h-7 w-7 shrink-0" onClick={() => setEditingId(null)}>
+                    <X className="w-3 h-3" />
+                  </Button>
+                </>
+              ) : (
+                <>
+                  <button
+                    onClick={() => switchTo(collection.id)}
+                    disabled={isSwitching}
+                    className="flex-1 min-w-0 text-left text-xs py-1 truncate"
+                  >
+                    {collection.name}
+                  </button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    title="Rename"
+                    className="h-7 w-7 opacity-0 group-hover:opacity-100"
+                    onClick={() => {
+                      setEditingId(collection.id);
+                      setDraftName(collection.name);
+                    }}
+                  >
+                    <Pencil className="w-3 h-3" />
+                  </Button>
+                  {collection.id !== activeCollection.id && (
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      title="Delete"
+                      className="h-7 w-7 opacity-0 group-hover:opacity-100 text-red-500 hover:bg-red-500/5"
+                      onClick={() => remove(collection)}
+                    >
+                      <Trash2 className="w-3 h-3" />
+                    </Button>
+                  )}
+                </>
+              )}
+            </div>
+          ))}
+
+          <div className="flex items-center gap-1 border-t border-border pt-2 mt-1">
+            <Input
+              value={newName}
+              onChange={(e) => setNewName(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && create()}
+              placeholder="New collection..."
+              className="h-7 text-xs bg-background/50 border-border"
+            />
+            <Button variant="ghost" size="icon" className="h-7 w-7 shrink-0" disabled={!newName.trim() || isSwitching} onClick={create}>
+              <Plus className="w-3.5 h-3.5" />
+            </Button>
+          </div>
+
+          {error && <p className="text-[10px] text-red-500 px-2">{error}</p>}
+        </div>
+      )}
+    </div>
+  );
+}
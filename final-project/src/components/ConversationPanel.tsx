@@ -0,0 +1,146 @@
+import { useEffect, useRef, useState } from 'react';
+import { Check, MessagesSquare, Pencil, Plus, Trash2, X } from 'lucide-react';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { cn } from '../lib/utils';
+import { ConversationService, type Conversation, type ConversationMessage } from '../lib/conversations';
+
+interface ConversationPanelProps {
+  // Null for a new conversation, which is created with its first question
+  activeId: number | null;
+  messages: ConversationMessage[];
+  onSelect: (id: number | null) => void;
+  disabled: boolean;
+}
+
+export function ConversationPanel({ activeId, messages, onSelect, disabled }: ConversationPanelProps) {
+  const [conversations, setConversations] = useState<Conversation[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [isRenaming, setIsRenaming] = useState(false);
+  // Bumped to reload the list after a change that adds no messages, e.g. a rename
+  const [revision, setRevision] = useState(0);
+  const [draftTitle, setDraftTitle] = useState('');
+  const transcriptEnd = useRef<HTMLDivElement>(null);
+
+  // Reloaded whenever a turn is added, since that reorders the list
+  useEffect(() => {
+    let cancelled = false;
+    ConversationService.list()
+      .then(list => !cancelled && setConversations(list))
+      .catch(error => !cancelled && setError(error instanceof Error ? error.message : String(error)));
+    return () => {
+      cancelled = true;
+    };
+  }, [activeId, messages.length, revision]);
+
+  useEffect(() => {
+    transcriptEnd.current?.scrollIntoView({ block: 'nearest' });
+  }, [messages.length]);
+
+  const startRename = () => {
+    setDraftTitle(conversations.find(c => c.id === activeId)?.title ?? '');
+    setIsRenaming(true);
+  };
+
+  const saveRename = async () => {
+    const title = draftTitle.trim();
+    setIsRenaming(false);
+    if (activeId === null || !title) return;
+    try {
+      await ConversationService.rename(activeId, title);
+      setRevision(revision => revision + 1);
+    } catch (error) {
+      console.error(error);
+      setError(error instanceof Error ? error.message : String(error));
+    }
+  };
+
+  const remove = async () => {
+    if (activeId === null || !confirm('Delete this conversation?')) return;
+    try {
+      await ConversationService.remove(activeId);
+      onSelect(null);
+    } catch (error) {
+      console.error(error);
+      setError(error instanceof Error ? error.message : String(error));
+    }
+  };
+
+  return (
+    <div className="border border-border rounded-xl bg-card/50 p-3 space-y-3 transition-colors">
+      <div className="flex items-center gap-2">
+        <MessagesSquare className="w-3.5 h-3.5 text-purple-400 shrink-0" />
+        {isRenaming ? (
+          <>
+            <Input
+              autoFocus
+              value={draftTitle}
+              onChange={(e) => setDraftTitle(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') saveRename();
+                if (e.key === 'Escape') setIsRenaming(false);
+              }}
+              className="flex-1 min-w-0 h-8 text-xs bg-background/50 border-border"
+            />
+            <Button variant="ghost" size="icon" title="Save title" className="h-8 w-8" onClick={saveRename}>
+              <Check className="w-3.5 h-3.5" />
+            </Button>
+            <Button variant="ghost" size="icon" title="Cancel" className="h-8 w-8" onClick={() => setIsRenaming(false)}>
+              <X className="w-3.5 h-3.5" />
+            </Button>
+          </>
+        ) : (
+          <>
+            <select
+              value={activeId ?? ''}
+              onChange={(e) => onSelect(e.target.value ? Number(e.target.value) : null)}
+              disabled={disabled}
+              className="flex-1 min-w-0 h-8 bg-background/50 border border-border rounded-lg px-3 text-xs focus:outline-none focus:ring-2 focus:ring-purple-500/50"
+            >
+              <option value="">New conversation</option>
+              {conversations.map(c => (
+                <option key={c.id} value={c.id}>{c.title} ({c.messageCount})</option>
+              ))}
+            </select>
+            <Button variant="ghost" size="icon" title="Rename conversation" className="h-8 w-8" disabled={disabled || activeId === null} onClick={startRename}>
+              <Pencil className="w-3.5 h-3.5" />
+            </Button>
+            <Button variant="ghost" size="icon" title="New conversation" className="h-8 w-8" disabled={disabled || activeId === null} onClick={() => onSelect(null)}>
+              <Plus className="w-3.5 h-3.5" />
+            </Button>
+            <Button variant="ghost" size="icon" title="Delete conversation" className="h-8 w-8 text-red-500 hover:bg-red-500/5" disabled={disabled || activeId === null} onClick={remove}>
+              <Trash2 className="w-3.5 h-3.5" />
+            </Button>
+          </>
+        )}
+      </div>
+
+      {messages.length > 0 ? (
+        <div className="max-h-72 overflow-y-auto space-y-2 pr-1">
+          {messages.map(message => (
+            <div key={message.id} className={cn("flex", message.role === 'user' ? "justify-end" : "justify-start")}>
+              <div
+                className={cn(
+                  "max-w-[85%] rounded-xl px-3 py-2 text-xs leading-relaxed",
+                  message.role === 'user' ? "bg-purple-500/10 text-foreground" : "bg-muted text-foreground/80"
+                )}
+              >
+                <p className="whitespace-pre-wrap">{message.content}</p>
+                {typeof message.metadata.standaloneQuery === 'string' && (
+                  <p className="mt-1 text-[10px] text-muted-foreground italic">Searched as: {message.metadata.standaloneQuery}</p>
+                )}
+              </div>
+            </div>
+          ))}
+          <div ref={transcriptEnd} />
+        </div>
+      ) : (
+        <p className="text-[10px] text-muted-foreground">
+          Ask a question to start. Follow-ups are rewritten into standalone searches using the conversation so far.
+        </p>
+      )}
+
+      {error && <p className="text-xs text-red-500">{error}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,209 @@
+import { useState } from 'react';
+import { FileJson, Loader2, Play } from 'lucide-react';
+import { Button } from './ui/button';
+import { Card, CardContent } from './ui/card';
+import { CorpusImporter, type FieldMapping, type ImportProgress, type ImportRecord, type RecordResult } from '../lib/importer';
+import type { ChunkingStrategy } from '../lib/chunking';
+
+interface CorpusImportPanelProps {
+  // Chunking settings currently selected in the ingestion card
+  createStrategy: () => ChunkingStrategy;
+  disabled: boolean;
+}
+
+interface PendingImport {
+  name: string;
+  records: ImportRecord[];
+  fields: string[];
+}
+
+const SAMPLE_MAPPING: FieldMapping = { content: 'content', title: 'title', metadata: [] };
+
+export function CorpusImportPanel({ createStrategy, disabled }: CorpusImportPanelProps) {
+  const [pending, setPending] = useState<PendingImport | null>(null);
+  const [mapping, setMapping] = useState<FieldMapping>(SAMPLE_MAPPING);
+  const [progress, setProgress] = useState<ImportProgress | null>(null);
+  const [failures, setFailures] = useState<RecordResult[]>([]);
+  const [isImporting, setIsImporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const runImport = async (records: ImportRecord[], fieldMapping: FieldMapping, origin: string) => {
+    setIsImporting(true);
+    setError(null);
+    setFailures([]);
+    setProgress(null);
+    try {
+      await CorpusImporter.import(records, fieldMapping, {
+        origin,
+        strategy: createStrategy(),
+        onProgress: (update) => {
+          setProgress(update);
+          const { latest } = update;
+          if (latest.error) setFailures(prev => [...prev, latest]);
+        },
+      });
+      setPending(null);
+    } catch (error) {
+      console.error(error);
+      setError(error instanceof Error ? error.message : String(error));
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    setError(null);
+    setProgress(null);
+    setFailures([]);
+    try {
+      const records = CorpusImporter.parse(await file.text());
+      const fields = CorpusImporter.fields(records);
+      setPending({ name: file.name, records, fields });
+      setMapping(CorpusImporter.guessMapping(fields));
+    } catch (error) {
+      setPending(null);
+      setError(`Could not read ${file.name}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  };
+
+  const loadSampleCorpus = async () => {
+    let records: ImportRecord[];
+    try {
+      const { default: sample } = await import('../../data/sample-docs.json?raw');
+      records = CorpusImporter.parse(sample);
+    } catch (error) {
+      console.error(error);
+      setError(`Could not load the sample corpus: ${error instanceof Error ? error.message : String(error)}`);
+      return;
+    }
+    await runImport(records, SAMPLE_MAPPING, 'sample-docs.json');
+  };
+
+  const toggleMetadataField = (field: string) => {
+    setMapping(prev => ({
+      ...prev,
+      metadata: prev.metadata.includes(field) ? prev.metadata.filter(f => f !== field) : [...prev.metadata, field],
+    }));
+  };
+
+  const percent = progress && progress.total > 0 ? Math.round((progress.done / progress.total) * 100) : 0;
+  const selectClass = "h-8 bg-background/50 border border-border rounded-lg px-3 text-xs normal-case tracking-normal font-normal text-foreground focus:outline-none focus:ring-2 focus:ring-indigo-500/50";
+
+  return (
+    <Card className="bg-card border-border overflow-hidden shadow-xl transition-colors">
+      <CardContent className="pt-6 space-y-4">
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-2 text-xs font-bold uppercase tracking-widest text-muted-foreground">
+            <FileJson className="w-3.5 h-3.5 text-indigo-400" />
+            Bulk Import
+          </div>
+          <Button
+            onClick={loadSampleCorpus}
+            disabled={disabled || isImporting}
+            variant="outline"
+            size="sm"
+            className="h-8 border-border hover:bg-accent text-xs"
+          >
+            Load sample corpus
+          </Button>
+        </div>
+
+        <label className="block text-[10px] font-bold bg-muted hover:bg-accent px-3 py-2 rounded-lg cursor-pointer transition-colors border border-border border-dashed text-muted-foreground uppercase tracking-wider text-center">
+          {pending ? `${pending.name} · ${pending.records.length} records` : 'Choose JSON or JSONL file'}
+          <input type="file" accept=".json,.jsonl,.ndjson" className="hidden" disabled={isImporting} onChange={handleFile} />
+        </label>
+
+        {pending && (
+          <div className="space-y-3">
+            <div className="flex flex-wrap gap-3">
+              <label className="flex flex-col gap-1 text-[10px] font-bold text-muted-foreground uppercase tracking-wider">
+                Content field
+                <select
+                  value={mapping.content}
+                  onChange={(e) => setMapping(prev => ({
+                    ...prev,
+                    content: e.target.value,
+                    metadata: prev.metadata.filter(f => f !== e.target.value),
+                  }))}
+                  className={selectClass}
+                >
+                  {pending.fields.map(field => <option key={field} value={field}>{field}</option>)}
+                </select>
+              </label>
+              <label className="flex flex-col gap-1 text-[10px] font-bold text-muted-foreground uppercase tracking-wider">
+                Title field
+                <select
+                  value={mapping.title ?? ''}
+                  onChange={(e) => setMapping(prev => ({
+                    ...prev,
+                    title: e.target.value || undefined,
+                    metadata: prev.metadata.filter(f => f !== e.target.value),
+                  }))}
+                  className={selectClass}
+                >
+                  <option value="">First line of content</option>
+                  {pending.fields.map(field => <option key={field} value={field}>{field}</option>)}
+                </select>
+              </label>
+            </div>
+            <div className="space-y-1">
+              <p className="text-[10px] font-bold text-muted-foreground uppercase tracking-wider">Metadata fields</p>
+              <div className="flex flex-wrap gap-x-3 gap-y-1">
+                {pending.fields.filter(f => f !== mapping.content && f !== mapping.title).map(field => (
+                  <label key={field} className="flex items-center gap-1.5 text-xs font-mono">
+                    <input
+                      type="checkbox"
+                      checked={mapping.metadata.includes(field)}
+                      onChange={() => toggleMetadataField(field)}
+                      className="accent-indigo-500"
+                    />
+                    {field}
+                  </label>
+                ))}
+              </div>
+            </div>
+            <Button
+              onClick={() => runImport(pending.records, mapping, pending.name)}
+              disabled={disabled || isImporting}
+              size="sm"
+              className="h-8 gap-1.5 bg-indigo-600 hover:bg-indigo-500 text-white"
+            >
+              <Play className="w-3 h-3" />
+              Import {pending.records.length} records
+            </Button>
+          </div>
+        )}
+
+        {(isImporting || progress) && (
+          <div className="space-y-1">
+            <div className="h-1.5 bg-muted rounded-full overflow-hidden">
+              <div className="h-full bg-indigo-500 transition-all" style={{ width: `${percent}%` }} />
+            </div>
+            <p className="text-[10px] text-muted-foreground flex items-center gap-1.5">
+              {isImporting && <Loader2 className="w-3 h-3 animate-spin" />}
+              {progress ? `${progress.done} / ${progress.total} records` : 'Starting...'}
+              {progress && progress.failed > 0 && <span className="text-red-500">· {progress.failed} failed</span>}
+              {isImporting && progress?.latest.title && <span className="truncate">· {progress.latest.title}</span>}
+            </p>
+          </div>
+        )}
+
+        {failures.length > 0 && (
+          <ul className="max-h-32 overflow-y-auto space-y-0.5 text-[10px] text-red-500 font-mono">
+            {failures.map(failure => (
+              <li key={failure.record}>
+                #{failure.record}{failure.title && ` (${failure.title})`}: {failure.error}
+              </li>
+            ))}
+          </ul>
+        )}
+
+        {error && <p className="text-xs text-red-500">{error}</p>}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,126 @@
+import { useState, useEffect } from 'react';
+import { Cpu, Loader2, Play, Square } from 'lucide-react';
+import { Button } from './ui/button';
+import { Card, CardContent } from './ui/card';
+import { EMBEDDING_MODELS, ModelRegistry, type EmbeddingModel } from '../lib/models';
+import { ReembedService, type ReembedProgress } from '../lib/reembed';
+
+interface EmbeddingModelPanelProps {
+  // Called after the corpus has switched to a new model
+  onComplete: () => void;
+}
+
+export function EmbeddingModelPanel({ onComplete }: EmbeddingModelPanelProps) {
+  const [activeModel, setActiveModel] = useState<EmbeddingModel | null>(null);
+  const [targetId, setTargetId] = useState<string>('');
+  const [pending, setPending] = useState<EmbeddingModel | null>(null);
+  const [progress, setProgress] = useState<ReembedProgress | null>(null);
+  const [isRunning, setIsRunning] = useState(ReembedService.isRunning());
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const load = async () => {
+      try {
+        const [active, unfinished] = await Promise.all([ModelRegistry.getActiveModel(), ReembedService.pendingTarget()]);
+        setActiveModel(active);
+        setPending(unfinished);
+        setTargetId((unfinished ?? active).id);
+      } catch (error) {
+        console.error(error);
+      }
+    };
+    load();
+  }, []);
+
+  const start = async () => {
+    const target = ModelRegistry.get(targetId);
+    setIsRunning(true);
+    setError(null);
+    setPending(target);
+    try {
+      const completed = await ReembedService.start(target, setProgress);
+      if (completed) {
+        setActiveModel(target);
+        setPending(null);
+        setProgress(null);
+        onComplete();
+      }
+    } catch (error) {
+      console.error(error);
+      setError(error instanceof Error ? error.message : String(error));
+    } finally {
+      setIsRunning(false);
+    }
+  };
+
+  const percent = progress && progress.total > 0 ? Math.round((progress.done / progress.total) * 100) : 0;
+
+  return (
+    <Card className="bg-card border-border overflow-hidden shadow-xl transition-colors">
+      <CardContent className="pt-6 space-y-4">
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-2 text-xs font-bold uppercase tracking-widest text-muted-foreground">
+            <Cpu className="w-3.5 h-3.5 text-emerald-400" />
+            Embedding Model
+          </div>
+          {activeModel && (
+            <span className="text-[10px] font-mono text-muted-foreground">
+              {activeModel.id} · {activeModel.dimension}d · {activeModel.pooling} pooling
+            </span>
+          )}
+        </div>
+
+        <div className="flex flex-wrap items-end gap-3">
+          <label className="flex flex-col gap-1 text-[10px] font-bold text-muted-foreground uppercase tracking-wider">
+            Model
+            <select
+              value={targetId}
+              onChange={(e) => setTargetId(e.target.value)}
+              disabled={isRunning}
+              className="h-8 bg-background/50 border border-border rounded-lg px-3 text-xs normal-case tracking-normal font-normal text-foreground focus:outline-none focus:ring-2 focus:ring-emerald-500/50"
+            >
+              {EMBEDDING_MODELS.map(model => (
+                <option key={model.id} value={model.id}>{model.label} ({model.dimension}d)</option>
+              ))}
+            </select>
+          </label>
+          {isRunning ? (
+            <Button onClick={() => ReembedService.cancel()} variant="outline" size="sm" className="h-8 gap-1.5 border-border hover:bg-accent">
+              <Square className="w-3 h-3" />
+              Cancel
+            </Button>
+          ) : (
+            <Button
+              onClick={start}
+              disabled={!activeModel || (targetId === activeModel.id && !pending)}
+              size="sm"
+              className="h-8 gap-1.5 bg-emerald-600 hover:bg-emerald-500 text-white"
+            >
+              <Play className="w-3 h-3" />
+              {pending?.id === targetId ? 'Resume re-embedding' : 'Re-embed corpus'}
+            </Button>
+          )}
+        </div>
+
+        {(isRunning || progress) && (
+          <div className="space-y-1">
+            <div className="h-1.5 bg-muted rounded-full overflow-hidden">
+              <div className="h-full bg-emerald-500 transition-all" style={{ width: `${percent}%` }} />
+            </div>
+            <p className="text-[10px] text-muted-foreground flex items-center gap-1.5">
+              {isRunning && <Loader2 className="w-3 h-3 animate-spin" />}
+              {progress ? `${progress.done} / ${progress.total} chunks embedded with ${progress.model.label}` : 'Starting...'}
+              {!isRunning && pending && ' · paused'}
+            </p>
+          </div>
+        )}
+
+        <p className="text-[10px] text-muted-foreground">
+          Search keeps using the current model until every chunk has been re-embedded.
+        </p>
+
+        {error && <p className="text-xs text-red-500">{error}</p>}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,74 @@
+import { AlertTriangle, Globe, Layers } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from './ui/card';
+import { CitationMarker } from './CitedAnswer';
+import type { Citation } from '../lib/answer';
+import type { HybridAnswer } from '../lib/hybrid';
+
+interface HybridAnswerCardProps {
+  answer: HybridAnswer;
+  selected: Citation | null;
+  onSelect: (citation: Citation) => void;
+}
+
+/**
+ * The fused answer, with document sentences carrying their citations and
+ * sentences from the model's own knowledge set apart.
+ */
+export function HybridAnswerCard({ answer, selected, onSelect }: HybridAnswerCardProps) {
+  return (
+    <Card className="bg-emerald-500/5 border-emerald-500/20 transition-colors">
+      <CardHeader className="py-3 flex-row items-center justify-between space-y-0">
+        <CardTitle className="text-xs text-emerald-500 flex items-center gap-2"><Layers className="w-3 h-3" /> Combined Answer</CardTitle>
+        <div className="flex items-center gap-3 text-[10px] text-muted-foreground">
+          <span className="flex items-center gap-1"><span className="w-2 h-2 rounded-full bg-indigo-500" /> Documents</span>
+          <span className="flex items-center gap-1"><span className="w-2 h-2 rounded-full bg-blue-500" /> Model knowledge</span>
+        </div>
+      </CardHeader>
+      <CardContent className="pb-3 space-y-3">
+        <p className="text-sm text-foreground/80 leading-relaxed">
+          {answer.sentences.map((sentence, index) => (
+            <span key={index}>
+              {index > 0 && ' '}
+              {sentence.provenance === 'model' ? (
+                <span className="text-blue-500/90 underline decoration-dotted decoration-blue-500/50 underline-offset-4" title="From the model's general knowledge, not from your documents">
+                  <Globe className="inline w-3 h-3 mr-1 -mt-0.5" />
+                  {sentence.text}
+                </span>
+              ) : (
+                sentence.text
+              )}
+              {sentence.citations.map(citation => (
+                <CitationMarker key={citation.number} citation={citation} selected={selected} onSelect={onSelect} />
+              ))}
+              {sentence.conflicts.length > 0 && (
+                <span
+                  className="inline-flex align-super ml-0.5 text-amber-500"
+                  title={`Model knowledge disagrees: ${sentence.conflicts.map(c => `"${c.modelText}"`).join(' ')}. The documents are preferred.`}
+                >
+                  <AlertTriangle className="w-3 h-3" />
+                </span>
+              )}
+            </span>
+          ))}
+        </p>
+
+        {answer.conflicts.length > 0 && (
+          <div className="border-t border-border pt-2 space-y-1.5">
+            <p className="text-[10px] font-bold uppercase tracking-wider text-amber-500 flex items-center gap-1.5">
+              <AlertTriangle className="w-3 h-3" />
+              {answer.conflicts.length} {answer.conflicts.length === 1 ? 'conflict' : 'conflicts'} resolved in favour of your documents
+            </p>
+            {answer.conflicts.map((conflict, index) => (
+              <div key={index} className="text-[10px] text-muted-foreground grid grid-cols-[auto_1fr] gap-x-2">
+                <span className="font-bold">Model</span>
+                <span className="line-through decoration-amber-500/60">{conflict.modelText}</span>
+                <span className="font-bold">Documents</span>
+                <span>{conflict.documentText}</span>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
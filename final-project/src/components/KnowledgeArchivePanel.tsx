@@ -0,0 +1,120 @@
+import { useState } from 'react';
+import { Archive, Download, Loader2, Upload } from 'lucide-react';
+import { Button } from './ui/button';
+import { Card, CardContent } from './ui/card';
+import { KnowledgeArchive, type ArchiveImportResult, type ConflictPolicy } from '../lib/archive';
+
+interface KnowledgeArchivePanelProps {
+  // Called after an archive has been imported
+  onImported: () => void;
+}
+
+const POLICIES: { value: ConflictPolicy; label: string; description: string }[] = [
+  { value: 'merge', label: 'Merge', description: 'Add archived documents, overwriting stored ones with the same content or key' },
+  { value: 'skip', label: 'Skip', description: 'Add archived documents, keeping stored ones with the same content or key' },
+  { value: 'replace', label: 'Replace', description: 'Delete the whole knowledge base, then add the archived documents' },
+];
+
+export function KnowledgeArchivePanel({ onImported }: KnowledgeArchivePanelProps) {
+  const [policy, setPolicy] = useState<ConflictPolicy>('merge');
+  const [isExporting, setIsExporting] = useState(false);
+  const [isImporting, setIsImporting] = useState(false);
+  const [result, setResult] = useState<ArchiveImportResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    setError(null);
+    try {
+      const blob = await KnowledgeArchive.export();
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `vector-meanings-${new Date().toISOString().slice(0, 10)}.jsonl`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      console.error(error);
+      setError(error instanceof Error ? error.message : String(error));
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    if (policy === 'replace' && !confirm('Replace the whole knowledge base with the archive? Stored documents will be deleted.')) return;
+
+    setIsImporting(true);
+    setResult(null);
+    setError(null);
+    try {
+      setResult(await KnowledgeArchive.import(await file.text(), policy));
+      onImported();
+    } catch (error) {
+      console.error(error);
+      setError(error instanceof Error ? error.message : String(error));
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  return (
+    <Card className="bg-card border-border overflow-hidden shadow-xl transition-colors">
+      <CardContent className="pt-6 space-y-4">
+        <div className="flex items-center gap-2 text-xs font-bold uppercase tracking-widest text-muted-foreground">
+          <Archive className="w-3.5 h-3.5 text-indigo-400" />
+          Backup & Transfer
+        </div>
+
+        <div className="flex flex-wrap items-end gap-3">
+          <Button
+            onClick={handleExport}
+            disabled={isExporting || isImporting}
+            variant="outline"
+            size="sm"
+            className="h-8 gap-1.5 border-border hover:bg-accent"
+          >
+            {isExporting ? <Loader2 className="w-3 h-3 animate-spin" /> : <Download className="w-3 h-3" />}
+            Export archive
+          </Button>
+          <label className="flex flex-col gap-1 text-[10px] font-bold text-muted-foreground uppercase tracking-wider">
+            On conflict
+            <select
+              value={policy}
+              onChange={(e) => setPolicy(e.target.value as ConflictPolicy)}
+              disabled={isImporting}
+              title={POLICIES.find(p => p.value === policy)?.description}
+              className="h-8 bg-background/50 border border-border rounded-lg px-3 text-xs normal-case tracking-normal font-normal text-foreground focus:outline-none focus:ring-2 focus:ring-indigo-500/50"
+            >
+              {POLICIES.map(p => <option key={p.value} value={p.value}>{p.label}</option>)}
+            </select>
+          </label>
+          <label className="h-8 inline-flex items-center gap-1.5 px-3 rounded-md border border-border hover:bg-accent text-xs font-medium cursor-pointer transition-colors">
+            {isImporting ? <Loader2 className="w-3 h-3 animate-spin" /> : <Upload className="w-3 h-3" />}
+            Import archive
+            <input type="file" accept=".jsonl,.ndjson" className="hidden" disabled={isImporting} onChange={handleImport} />
+          </label>
+        </div>
+
+        <p className="text-[10px] text-muted-foreground">
+          {POLICIES.find(p => p.value === policy)?.description}. Archives hold content, metadata and embeddings;
+          chunks embedded with a different model are embedded again on import.
+        </p>
+
+        {result && (
+          <div className="flex flex-wrap gap-x-3 gap-y-1 text-[10px] font-bold uppercase tracking-wider">
+            <span className="text-emerald-500">{result.imported} imported</span>
+            {result.overwritten > 0 && <span className="text-amber-500">{result.overwritten} overwritten</span>}
+            {result.skipped > 0 && <span className="text-muted-foreground">{result.skipped} skipped</span>}
+            {result.reembedded > 0 && <span className="text-muted-foreground">{result.reembedded} chunks re-embedded</span>}
+          </div>
+        )}
+
+        {error && <p className="text-xs text-red-500">{error}</p>}
+      </CardContent>
+    </Card>
+  );
+}
@@ -83,7 +83,7 @@ export function LandingPage({ onStartCourse, onOpenSandbox }: LandingPageProps)
             </div>
           </div>
           <div className="p-8 font-mono text-sm space-y-2 opacity-80">
-             <div className="flex gap-2"><span className="text-indigo-500 dark:text-indigo-400">➜</span> <span>await db.query(`SELECT id, content FROM documents ORDER BY embedding &lt;=&gt; $1 LIMIT 3`, [query_vector]);</span></div>
+             <div className="flex gap-2"><span className="text-indigo-500 dark:text-indigo-400">➜</span> <span>await db.query(`SELECT id, content FROM chunks ORDER BY embedding &lt;=&gt; $1 LIMIT 3`, [query_vector]);</span></div>
              <div className="text-emerald-600 dark:text-emerald-400/80">DONE: 3 chunks retrieved in 12ms</div>
              <div className="text-muted-foreground/30">----------------------------------------------------</div>
              <div className="flex gap-2"><span className="text-indigo-500 dark:text-indigo-400">➜</span> <span>await generator(prompt, {'{'} max_tokens: 100 {'}'});</span></div>
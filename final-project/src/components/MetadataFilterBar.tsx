@@ -0,0 +1,127 @@
+import { useState } from 'react';
+import { Filter, Plus, X } from 'lucide-react';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { describeMetadataFilter, type MetadataFilter, type MetadataValue } from '../lib/filters';
+
+type ChipOperator = 'eq' | 'in' | 'gte' | 'lte' | 'exists';
+
+interface MetadataFilterBarProps {
+  filters: MetadataFilter[];
+  matchAll: boolean;
+  onFiltersChange: (filters: MetadataFilter[]) => void;
+  onMatchAllChange: (matchAll: boolean) => void;
+}
+
+function parseValue(raw: string): MetadataValue {
+  const value = raw.trim();
+  if (value === 'true' || value === 'false') return value === 'true';
+  if (value !== '' && !Number.isNaN(Number(value))) return Number(value);
+  return value;
+}
+
+// Turns the chip form into a filter, or null when the input does not make sense for the operator
+function buildFilter(key: string, operator: ChipOperator, raw: string): MetadataFilter | null {
+  if (!key) return null;
+  if (operator === 'exists') return { op: 'exists', key };
+  if (!raw.trim()) return null;
+
+  switch (operator) {
+    case 'eq':
+      return { op: 'eq', key, value: parseValue(raw) };
+    case 'in':
+      return { op: 'in', key, values: raw.split(',').map(parseValue).filter(v => v !== '') };
+    case 'gte':
+    case 'lte': {
+      const bound = raw.trim();
+      if (!Number.isNaN(Number(bound))) {
+        const n = Number(bound);
+        return { op: 'range', key, type: 'number', ...(operator === 'gte' ? { gte: n } : { lte: n }) };
+      }
+      if (!Number.isNaN(Date.parse(bound))) {
+        return { op: 'range', key, type: 'date', ...(operator === 'gte' ? { gte: bound } : { lte: bound }) };
+      }
+      return null;
+    }
+  }
+}
+
+export function MetadataFilterBar({ filters, matchAll, onFiltersChange, onMatchAllChange }: MetadataFilterBarProps) {
+  const [key, setKey] = useState('');
+  const [operator, setOperator] = useState<ChipOperator>('eq');
+  const [value, setValue] = useState('');
+
+  const addFilter = () => {
+    const filter = buildFilter(key.trim(), operator, value);
+    if (!filter) return;
+    onFiltersChange([...filters, filter]);
+    setKey('');
+    setValue('');
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex gap-2 items-center">
+        <Filter className="w-3.5 h-3.5 text-muted-foreground shrink-0" />
+        <Input
+          value={key}
+          onChange={(e) => setKey(e.target.value)}
+          placeholder="metadata key"
+          className="h-8 w-32 bg-background/50 border-border rounded-lg text-xs"
+        />
+        <select
+          value={operator}
+          onChange={(e) => setOperator(e.target.value as ChipOperator)}
+          className="h-8 bg-background/50 border border-border rounded-lg px-2 text-xs focus:outline-none focus:ring-2 focus:ring-purple-500/50"
+        >
+          <option value="eq">=</option>
+          <option value="in">in</option>
+          <option value="gte">≥</option>
+          <option value="lte">≤</option>
+          <option value="exists">exists</option>
+        </select>
+        {operator !== 'exists' && (
+          <Input
+            value={value}
+            onChange={(e) => setValue(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && addFilter()}
+            placeholder={operator === 'in' ? 'a, b, c' : operator === 'eq' ? 'value' : 'number or date'}
+            className="h-8 flex-1 bg-background/50 border-border rounded-lg text-xs"
+          />
+        )}
+        <Button onClick={addFilter} variant="outline" size="icon" className="h-8 w-8 shrink-0 border-border hover:bg-accent" title="Add filter">
+          <Plus className="w-3.5 h-3.5" />
+        </Button>
+      </div>
+
+      {filters.length > 0 && (
+        <div className="flex flex-wrap gap-1.5 items-center">
+          {filters.length > 1 && (
+            <button
+              onClick={() => onMatchAllChange(!matchAll)}
+              className="px-2 py-0.5 rounded-md text-[10px] font-bold uppercase tracking-wider bg-muted border border-border text-muted-foreground hover:text-foreground"
+              title="Toggle between matching all or any of the filters"
+            >
+              {matchAll ? 'all' : 'any'}
+            </button>
+          )}
+          {filters.map((filter, index) => (
+            <span
+              key={index}
+              className="flex items-center gap-1 pl-2 pr-1 py-0.5 rounded-full text-[10px] font-mono bg-purple-500/10 border border-purple-500/20 text-purple-500"
+            >
+              {describeMetadataFilter(filter)}
+              <button
+                onClick={() => onFiltersChange(filters.filter((_, i) => i !== index))}
+                className="rounded-full p-0.5 hover:bg-purple-500/20"
+                title="Remove filter"
+              >
+                <X className="w-2.5 h-2.5" />
+              </button>
+            </span>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,134 @@
+import { useState } from 'react';
+import { AlertTriangle, ChevronDown, MessageSquareCode, RotateCcw, Save } from 'lucide-react';
+import { Button } from './ui/button';
+import { cn } from '../lib/utils';
+import { PROMPT_TEMPLATES, PromptTemplateRegistry, FINAL_ANSWER_MARKER, type PromptTemplateId } from '../lib/prompts';
+
+interface PromptTemplatesPanelProps {
+  // Editing is locked while answers are being generated
+  disabled: boolean;
+}
+
+// A rejected override is loaded into the editor so it can be fixed and saved again
+const editableTemplate = (id: PromptTemplateId) =>
+  PromptTemplateRegistry.rejectedOverride(id)?.template ?? PromptTemplateRegistry.get(id);
+
+// Templates whose saved version is ignored or leaves out an optional variable
+const needsAttention = (id: PromptTemplateId) =>
+  PromptTemplateRegistry.rejectedOverride(id) !== null
+  || (PromptTemplateRegistry.isCustomized(id) && PromptTemplateRegistry.missingOptionalVariables(id).length > 0);
+
+export function PromptTemplatesPanel({ disabled }: PromptTemplatesPanelProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [templateId, setTemplateId] = useState<PromptTemplateId>('answer');
+  const [draft, setDraft] = useState(() => editableTemplate('answer'));
+  const [isCustomized, setIsCustomized] = useState(() => PromptTemplateRegistry.isCustomized('answer'));
+  const [error, setError] = useState<string | null>(null);
+  const [saved, setSaved] = useState(false);
+
+  const info = PromptTemplateRegistry.info(templateId);
+  const isDirty = draft !== PromptTemplateRegistry.get(templateId);
+  const rejected = PromptTemplateRegistry.rejectedOverride(templateId);
+  const missingOptional = PromptTemplateRegistry.missingOptionalVariables(templateId, draft);
+
+  const selectTemplate = (id: PromptTemplateId) => {
+    setTemplateId(id);
+    setDraft(editableTemplate(id));
+    setIsCustomized(PromptTemplateRegistry.isCustomized(id));
+    setError(null);
+    setSaved(false);
+  };
+
+  const save = () => {
+    try {
+      PromptTemplateRegistry.set(templateId, draft);
+      setIsCustomized(true);
+      setError(null);
+      setSaved(true);
+    } catch (error) {
+      setError(error instanceof Error ? error.message : String(error));
+    }
+  };
+
+  const reset = () => {
+    PromptTemplateRegistry.reset(templateId);
+    setDraft(info.defaultTemplate);
+    setIsCustomized(false);
+    setError(null);
+    setSaved(false);
+  };
+
+  return (
+    <div className="border border-border rounded-xl bg-card/50 transition-colors">
+      <button
+        onClick={() => setIsOpen(open => !open)}
+        className="w-full flex items-center justify-between px-4 py-2.5 text-[10px] font-bold uppercase tracking-wider text-muted-foreground hover:text-foreground transition-colors"
+      >
+        <span className="flex items-center gap-2">
+          <MessageSquareCode className="w-3.5 h-3.5 text-indigo-400" />
+          Prompt templates
+          {PROMPT_TEMPLATES.some(t => needsAttention(t.id)) && (
+            <AlertTriangle className="w-3 h-3 text-amber-500" aria-label="A saved template needs attention" />
+          )}
+        </span>
+        <ChevronDown className={cn("w-3.5 h-3.5 transition-transform", isOpen && "rotate-180")} />
+      </button>
+
+      {isOpen && (
+        <div className="px-4 pb-4 space-y-3">
+          <div className="flex items-center gap-2">
+            <select
+              value={templateId}
+              onChange={(e) => selectTemplate(e.target.value as PromptTemplateId)}
+              className="h-8 bg-background/50 border border-border rounded-lg px-3 text-xs focus:outline-none focus:ring-2 focus:ring-indigo-500/50"
+            >
+              {PROMPT_TEMPLATES.map(t => <option key={t.id} value={t.id}>{needsAttention(t.id) ? `${t.label} (needs attention)` : t.label}</option>)}
+            </select>
+            {isCustomized && <span className="text-[10px] font-bold uppercase tracking-wider text-amber-500">Customized</span>}
+          </div>
+          <p className="text-[10px] text-muted-foreground">
+            {info.description}. Variables: {info.variables.map(name => <code key={name} className="font-mono text-indigo-400 mr-1">{`{{${name}}}`}</code>)}
+            {info.optionalVariables.map(name => <code key={name} className="font-mono text-muted-foreground mr-1" title="Optional">{`{{${name}}}`}</code>)}
+          </p>
+          {rejected && (
+            <p className="text-[10px] text-amber-500 flex items-start gap-1.5">
+              <AlertTriangle className="w-3 h-3 shrink-0 mt-px" />
+              Your saved template no longer fits this prompt ({rejected.error}), so the default is used. Fix it below and save, or reset it.
+            </p>
+          )}
+          {missingOptional.length > 0 && (
+            <p className="text-[10px] text-amber-500 flex items-start gap-1.5">
+              <AlertTriangle className="w-3 h-3 shrink-0 mt-px" />
+              Leaves out {missingOptional.map(name => <code key={name} className="font-mono mx-0.5">{`{{${name}}}`}</code>)}
+              so its value never reaches the model.
+            </p>
+          )}
+          <textarea
+            value={draft}
+            onChange={(e) => {
+              setDraft(e.target.value);
+              setSaved(false);
+            }}
+            disabled={disabled}
+            spellCheck={false}
+            className="w-full min-h-[180px] bg-background/50 border border-border rounded-xl p-3 text-xs font-mono focus:outline-none focus:ring-2 focus:ring-indigo-500/50 transition-all"
+          />
+          <div className="flex items-center gap-2">
+            <Button onClick={save} disabled={disabled || !isDirty} size="sm" className="h-7 gap-1.5 bg-indigo-600 hover:bg-indigo-500 text-white text-xs">
+              <Save className="w-3 h-3" /> Save
+            </Button>
+            <Button onClick={reset} disabled={disabled || (!isCustomized && !isDirty && !rejected)} variant="ghost" size="sm" className="h-7 gap-1.5 text-xs">
+              <RotateCcw className="w-3 h-3" /> Reset to default
+            </Button>
+            {saved && !isDirty && <span className="text-[10px] text-emerald-500">Saved</span>}
+          </div>
+          <p className="text-[10px] text-muted-foreground">
+            Text after "{FINAL_ANSWER_MARKER}" is shown as the answer and anything before it as reasoning.
+            Without that marker the whole output is the answer.
+          </p>
+          {error && <p className="text-xs text-red-500">{error}</p>}
+        </div>
+      )}
+    </div>
+  );
+}
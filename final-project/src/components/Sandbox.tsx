@@ -1,99 +1,262 @@
-import { useState, useEffect } from 'react';
-import { Search, Upload, Loader2, BookOpen, Table, Trash2, RefreshCw, Globe, Database } from 'lucide-react';
+import { useState, useEffect, useRef } from 'react';
+import { Search, Upload, Loader2, BookOpen, Table, Trash2, RefreshCw, Globe, Database, AlertTriangle, Square, X } from 'lucide-react';
 import { Button } from './ui/button';
 import { Input } from './ui/input';
 import { Card, CardContent, CardHeader, CardTitle } from './ui/card';
-import { IngestionService } from '../lib/ingestion';
-import { SearchService, type SearchResult } from '../lib/search';
-import { AnswerService } from '../lib/answer';
+import { IngestionService, type IngestResult } from '../lib/ingestion';
+import { CHUNKING_STRATEGIES, createChunkingStrategy, type ChunkingStrategyName } from '../lib/chunking';
+import { SearchService, type SearchResult, type SearchMode, type FusionMethod } from '../lib/search';
+import { RerankService } from '../lib/rerank';
+import { AnswerService, type Citation, type GroundedAnswer } from '../lib/answer';
 import { GeneralKnowledgeService } from '../lib/general';
 import { VectorDatabase } from '../lib/pglite';
+import { SourceService, type Source } from '../lib/sources';
+import { extractFile } from '../lib/extractors';
+import { EmbeddingCache, type EmbeddingCacheStats } from '../lib/embedding-cache';
+import { SourcesPanel } from './SourcesPanel';
+import { VectorIndexPanel, type SearchTuning } from './VectorIndexPanel';
+import { EmbeddingModelPanel } from './EmbeddingModelPanel';
+import { CorpusImportPanel } from './CorpusImportPanel';
+import { KnowledgeArchivePanel } from './KnowledgeArchivePanel';
+import { CitedAnswer, QuotedContent } from './CitedAnswer';
+import { PromptTemplatesPanel } from './PromptTemplatesPanel';
+import { ConversationPanel } from './ConversationPanel';
+import { HybridAnswerCard } from './HybridAnswerCard';
+import { HybridAnswerService, type HybridAnswer } from '../lib/hybrid';
+import type { StructuredAnswer } from '../lib/prompts';
+import { ConversationService, type ConversationMessage, type NewMessage } from '../lib/conversations';
+import { MetadataFilterBar } from './MetadataFilterBar';
+import type { MetadataFilter } from '../lib/filters';
 import { useAI } from '../context/AIContext';
 import { cn } from '../lib/utils';
 
-interface DocumentRow {
+interface FileUpload {
+  name: string;
+  status: 'extracting' | 'ingesting' | 'done' | 'error';
+  report?: IngestResult;
+  error?: string;
+}
+
+// A generation in progress. Stopping keeps the text so far, cancelling discards it.
+interface AnswerStream {
+  controller: AbortController;
+  cancelled: boolean;
+}
+
+interface ChunkRow {
   id: number;
   content: string;
   embedding: number[];
   created_at: string;
   metadata: Record<string, unknown>;
+  chunk_index: number;
+  source_title: string;
+  embedding_model: string;
 }
 
 export function Sandbox() {
-  const { isModelLoaded, setModelProgress } = useAI();
+  const { isModelLoaded, setModelProgress, isDbReady, dbError } = useAI();
+  // Ingesting and searching need the model, and the database opened and migrated
+  const isReady = isModelLoaded && isDbReady;
   const [ingestText, setIngestText] = useState('');
+  const [chunkStrategy, setChunkStrategy] = useState<ChunkingStrategyName>('fixed');
+  const [chunkSize, setChunkSize] = useState(250);
   const [searchQuery, setSearchQuery] = useState('');
+  const [searchMode, setSearchMode] = useState<SearchMode>('vector');
+  const [fusionMethod, setFusionMethod] = useState<FusionMethod>('rrf');
+  const [metadataFilters, setMetadataFilters] = useState<MetadataFilter[]>([]);
+  const [matchAllFilters, setMatchAllFilters] = useState(true);
+  const [useMmr, setUseMmr] = useState(false);
+  const [mmrLambda, setMmrLambda] = useState(0.5);
+  const [minSimilarity, setMinSimilarity] = useState(0);
+  const [useRerank, setUseRerank] = useState(false);
+  const [rerankCandidates, setRerankCandidates] = useState(20);
+  const [contextBudget, setContextBudget] = useState(512);
+  const [conversationMode, setConversationMode] = useState(false);
+  const [conversationId, setConversationId] = useState<number | null>(null);
+  const [conversationMessages, setConversationMessages] = useState<ConversationMessage[]>([]);
   const [results, setResults] = useState<SearchResult[]>([]);
   const [localAnswer, setLocalAnswer] = useState<string>('');
+  const [groundedAnswer, setGroundedAnswer] = useState<GroundedAnswer | null>(null);
+  const [selectedCitation, setSelectedCitation] = useState<Citation | null>(null);
   const [worldAnswer, setWorldAnswer] = useState<string>('');
+  const [worldReasoning, setWorldReasoning] = useState<string | null>(null);
+  const [hybridAnswer, setHybridAnswer] = useState<HybridAnswer | null>(null);
   
   const [isIngesting, setIsIngesting] = useState(false);
+  const [ingestReport, setIngestReport] = useState<IngestResult | null>(null);
+  const [ingestError, setIngestError] = useState<string | null>(null);
+  const [uploads, setUploads] = useState<FileUpload[]>([]);
   const [isSearching, setIsSearching] = useState(false);
   const [isAnsweringLocal, setIsAnsweringLocal] = useState(false);
   const [isAnsweringWorld, setIsAnsweringWorld] = useState(false);
+  const localStream = useRef<AnswerStream | null>(null);
+  const worldStream = useRef<AnswerStream | null>(null);
 
   const [activeSubTab, setActiveSubTab] = useState<'rag' | 'db'>('rag');
-  const [dbData, setDbData] = useState<DocumentRow[]>([]);
+  const [dbData, setDbData] = useState<ChunkRow[]>([]);
+  const [sources, setSources] = useState<Source[]>([]);
+  const [cacheStats, setCacheStats] = useState<EmbeddingCacheStats | null>(null);
+  // pgvector's defaults for hnsw.ef_search and ivfflat.probes
+  const [searchTuning, setSearchTuning] = useState<SearchTuning>({ efSearch: 40, probes: 1 });
   const [isDbLoading, setIsDbLoading] = useState(false);
 
+  const createStrategy = () => {
+    const strategyInfo = CHUNKING_STRATEGIES.find(s => s.name === chunkStrategy)!;
+    return createChunkingStrategy(chunkStrategy, { [strategyInfo.sizeParam]: chunkSize });
+  };
+
   const handleFileUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (!file) return;
-
-    const reader = new FileReader();
-    reader.onload = async (event) => {
-      const text = event.target?.result as string;
-      setIngestText(text);
-    };
-    reader.readAsText(file);
+    const files = Array.from(e.target.files ?? []);
+    // Lets the same files be picked again after they changed
+    e.target.value = '';
+    if (files.length === 0) return;
+
+    setIsIngesting(true);
+    setIngestReport(null);
+    setIngestError(null);
+    setUploads(files.map(file => ({ name: file.name, status: 'extracting' })));
+    const updateUpload = (index: number, update: Partial<FileUpload>) =>
+      setUploads(prev => prev.map((upload, i) => (i === index ? { ...upload, ...update } : upload)));
+
+    // One file at a time, and a file that fails does not stop the rest. The collection
+    // cannot be switched until all of them are stored.
+    try {
+      await VectorDatabase.withDatabase(async () => {
+        for (const [index, file] of files.entries()) {
+          try {
+            const document = await extractFile(file);
+            updateUpload(index, { status: 'ingesting' });
+            const metadata = {
+              timestamp: new Date().toISOString(),
+              source: 'upload',
+              length: document.text.length,
+            };
+            // Uploading a file again replaces the stored version instead of adding a copy
+            const report = await IngestionService.reingest(file.name, document, metadata, {
+              strategy: createStrategy(), title: file.name, origin: 'upload',
+            });
+            updateUpload(index, { status: 'done', report });
+          } catch (error) {
+            console.error(error);
+            updateUpload(index, { status: 'error', error: error instanceof Error ? error.message : String(error) });
+          }
+        }
+      });
+    } catch (error) {
+      console.error(error);
+      setIngestError(error instanceof Error ? error.message : String(error));
+    }
+
+    setIsIngesting(false);
+    if (activeSubTab === 'db') fetchDbData();
   };
 
   const handleIngest = async () => {
     if (!ingestText.trim()) return;
     setIsIngesting(true);
+    setIngestReport(null);
+    setIngestError(null);
+    setUploads([]);
     try {
-      await IngestionService.ingest(ingestText, { 
+      const metadata = { 
         timestamp: new Date().toISOString(),
         source: 'sandbox',
         length: ingestText.length 
-      });
+      };
+      const report = await IngestionService.ingest(ingestText, metadata, { strategy: createStrategy(), origin: 'sandbox' });
+      setIngestReport(report);
       setIngestText('');
       if (activeSubTab === 'db') fetchDbData();
     } catch (error) {
       console.error(error);
+      setIngestError(error instanceof Error ? error.message : String(error));
     } finally {
       setIsIngesting(false);
     }
   };
 
   const handleSearch = async () => {
-    if (!searchQuery.trim()) return;
+    if (!searchQuery.trim() || !isReady) return;
     setIsSearching(true);
     setLocalAnswer('');
+    setGroundedAnswer(null);
+    setSelectedCitation(null);
     setWorldAnswer('');
+    setWorldReasoning(null);
+    setHybridAnswer(null);
     setResults([]);
 
     try {
-      const searchResults = await SearchService.search(searchQuery, 5);
+      // Follow-ups only make sense with the conversation, so they are searched as standalone questions
+      const query = conversationMode
+        ? await ConversationService.rewriteQuery(searchQuery, conversationMessages, setModelProgress)
+        : searchQuery;
+      let documentAnswer: GroundedAnswer | null = null;
+      let generalAnswer: StructuredAnswer | null = null;
+
+      const candidates = await SearchService.search(query, useRerank ? rerankCandidates : 5, {
+        ...searchTuning,
+        mode: searchMode,
+        fusion: fusionMethod,
+        filter: metadataFilters.length > 0
+          ? { op: matchAllFilters ? 'and' : 'or', filters: metadataFilters }
+          : undefined,
+        mmr: useMmr,
+        mmrLambda,
+        minSimilarity: minSimilarity > 0 ? minSimilarity : undefined,
+      });
+      const searchResults = useRerank
+        ? await RerankService.rerank(query, candidates, 5, setModelProgress)
+        : candidates;
       setResults(searchResults);
 
+      // The document answer streams its reasoning, then settles on the final answer and its citations
       const localRagPromise = async () => {
         if (searchResults.length > 0) {
+          const stream = startStream(localStream);
           setIsAnsweringLocal(true);
-          const answer = await AnswerService.answer(searchQuery, searchResults.map(r => r.content), setModelProgress);
-          setLocalAnswer(answer);
-          setIsAnsweringLocal(false);
+          try {
+            // Asked the standalone question the passages were retrieved for, with the history as context
+            const answer = await AnswerService.answer(query, searchResults, setModelProgress, {
+              signal: stream.controller.signal,
+              onToken: (text) => setLocalAnswer(prev => prev + text),
+            }, { maxTokens: contextBudget }, conversationMode ? conversationMessages : []);
+            setLocalAnswer(stream.cancelled ? '' : answer.text);
+            if (!stream.cancelled) {
+              setGroundedAnswer(answer);
+              documentAnswer = answer;
+            }
+          } finally {
+            localStream.current = null;
+            setIsAnsweringLocal(false);
+          }
         }
       };
 
       const worldKnowledgePromise = async () => {
+        const stream = startStream(worldStream);
         setIsAnsweringWorld(true);
-        const answer = await GeneralKnowledgeService.answer(searchQuery, setModelProgress);
-        setWorldAnswer(answer);
-        setIsAnsweringWorld(false);
+        try {
+          const answer = await GeneralKnowledgeService.answer(query, setModelProgress, {
+            signal: stream.controller.signal,
+            onToken: (text) => setWorldAnswer(prev => prev + text),
+          });
+          setWorldAnswer(stream.cancelled ? '' : answer.answer);
+          if (!stream.cancelled) {
+            setWorldReasoning(answer.reasoning);
+            generalAnswer = answer;
+          }
+        } finally {
+          worldStream.current = null;
+          setIsAnsweringWorld(false);
+        }
       };
 
       await Promise.all([localRagPromise(), worldKnowledgePromise()]);
+      if (documentAnswer || generalAnswer) setHybridAnswer(HybridAnswerService.fuse(documentAnswer, generalAnswer));
+
+      if (conversationMode) await recordTurn(query, documentAnswer, generalAnswer);
     } catch (error) {
       console.error(error);
     } finally {
@@ -101,16 +264,85 @@ export function Sandbox() {
     }
   };
 
+  /**
+   * Saves a question and its answer to the open conversation, starting one if
+   * needed. The document answer is preferred; nothing is saved when both
+   * answers were cancelled.
+   */
+  const recordTurn = async (query: string, documentAnswer: GroundedAnswer | null, generalAnswer: StructuredAnswer | null) => {
+    const answer = documentAnswer?.text || generalAnswer?.answer;
+    if (!answer) return;
+
+    const turn: NewMessage[] = [
+      { role: 'user', content: searchQuery, metadata: query !== searchQuery ? { standaloneQuery: query } : {} },
+      {
+        role: 'assistant',
+        content: answer,
+        metadata: documentAnswer?.text
+          ? { answeredFrom: 'documents', citedChunkIds: documentAnswer.citedChunkIds }
+          : { answeredFrom: 'world' },
+      },
+    ];
+    let id = conversationId;
+    if (id === null) id = await ConversationService.create(searchQuery, turn);
+    else await ConversationService.append(id, turn);
+    setConversationId(id);
+    setConversationMessages(await ConversationService.messages(id));
+    setSearchQuery('');
+  };
+
+  const selectConversation = async (id: number | null) => {
+    setConversationId(id);
+    try {
+      setConversationMessages(id === null ? [] : await ConversationService.messages(id));
+    } catch (error) {
+      console.error(error);
+    }
+  };
+
+  // The chunk's number in the answer prompt, or 0 if it was left out
+  const promptNumber = (chunkId: number) =>
+    (groundedAnswer?.packing.included.findIndex(result => result.id === chunkId) ?? -1) + 1;
+
+  const selectCitation = (citation: Citation) => {
+    setSelectedCitation(citation);
+    document.getElementById(`result-${citation.chunkId}`)?.scrollIntoView({ behavior: 'smooth', block: 'nearest' });
+  };
+
+  const startStream = (ref: React.MutableRefObject<AnswerStream | null>) => {
+    ref.current = { controller: new AbortController(), cancelled: false };
+    return ref.current;
+  };
+
+  const stopStream = (ref: React.MutableRefObject<AnswerStream | null>, cancel: boolean) => {
+    if (!ref.current) return;
+    ref.current.cancelled = cancel;
+    ref.current.controller.abort();
+  };
+
+  // Nothing should keep generating for a Sandbox that is gone, e.g. after switching collections
+  useEffect(() => () => {
+    localStream.current?.controller.abort();
+    worldStream.current?.controller.abort();
+  }, []);
+
   const fetchDbData = async () => {
     setIsDbLoading(true);
     try {
-      const db = await VectorDatabase.getInstance();
-      const result = await db.query('SELECT * FROM documents ORDER BY id DESC LIMIT 50');
-      const formatted = result.rows.map((row: any) => ({
+      const result = await VectorDatabase.withDatabase((db) => db.query<Omit<ChunkRow, 'embedding'> & { embedding: string | null }>(
+        `SELECT c.id, c.content, c.embedding::text AS embedding, c.created_at, c.metadata, c.chunk_index, c.embedding_model, s.title AS source_title
+         FROM chunks c
+         JOIN sources s ON s.id = c.source_id
+         ORDER BY c.id DESC
+         LIMIT 50`
+      ));
+      const formatted = result.rows.map(row => ({
         ...row,
-        embedding: row.embedding ? Array.from(row.embedding) : []
+        embedding: row.embedding ? JSON.parse(row.embedding) : []
       }));
       setDbData(formatted);
+      setSources(await SourceService.list());
+      setCacheStats(await EmbeddingCache.stats());
     } catch (error) {
       console.error(error);
     } finally {
@@ -121,17 +353,29 @@ export function Sandbox() {
   const clearDatabase = async () => {
     if (!confirm('Are you sure? This will delete all ingested knowledge.')) return;
     try {
-      const db = await VectorDatabase.getInstance();
-      await db.exec('DELETE FROM documents');
+      await VectorDatabase.withDatabase((db) => db.exec('DELETE FROM sources'));
       await fetchDbData();
       setResults([]);
       setLocalAnswer('');
+      setGroundedAnswer(null);
+      setSelectedCitation(null);
       setWorldAnswer('');
+      setWorldReasoning(null);
+      setHybridAnswer(null);
     } catch (error) {
        console.error(error);
     }
   };
 
+  const clearEmbeddingCache = async () => {
+    try {
+      await EmbeddingCache.clear();
+      setCacheStats(await EmbeddingCache.stats());
+    } catch (error) {
+      console.error(error);
+    }
+  };
+
   useEffect(() => {
     if (activeSubTab === 'db') fetchDbData();
   }, [activeSubTab]);
@@ -167,6 +411,16 @@ export function Sandbox() {
         </div>
       </div>
 
+      {dbError && (
+        <div className="flex items-start gap-3 rounded-xl border border-red-500/20 bg-red-500/5 px-4 py-3 text-sm text-red-500">
+          <AlertTriangle className="w-4 h-4 mt-0.5 shrink-0" />
+          <div>
+            <p className="font-bold">Your knowledge base could not be opened.</p>
+            <p className="text-xs mt-1 text-red-500/80">{dbError}</p>
+          </div>
+        </div>
+      )}
+
       {activeSubTab === 'rag' ? (
         <div className="grid grid-cols-1 lg:grid-cols-2 gap-12">
           {/* Ingestion Column */}
@@ -183,21 +437,96 @@ export function Sandbox() {
                   placeholder="Paste document content..."
                   className="w-full min-h-[200px] bg-background/50 border border-border rounded-xl p-4 text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500/50 transition-all font-mono"
                 />
+                <div className="flex gap-2 items-center">
+                  <select
+                    value={chunkStrategy}
+                    onChange={(e) => {
+                      const name = e.target.value as ChunkingStrategyName;
+                      setChunkStrategy(name);
+                      setChunkSize(CHUNKING_STRATEGIES.find(s => s.name === name)!.defaultSize);
+                    }}
+                    title={CHUNKING_STRATEGIES.find(s => s.name === chunkStrategy)?.description}
+                    className="flex-1 h-9 bg-background/50 border border-border rounded-lg px-3 text-xs focus:outline-none focus:ring-2 focus:ring-indigo-500/50"
+                  >
+                    {CHUNKING_STRATEGIES.map(s => (
+                      <option key={s.name} value={s.name}>{s.label} Chunking</option>
+                    ))}
+                  </select>
+                  <Input
+                    type="number"
+                    min={chunkStrategy === 'token' ? 16 : 50}
+                    value={chunkSize}
+                    onChange={(e) => setChunkSize(Number(e.target.value))}
+                    title={chunkStrategy === 'token' ? 'Max tokens per chunk' : 'Max characters per chunk'}
+                    className="w-24 h-9 bg-background/50 border-border rounded-lg text-xs"
+                  />
+                </div>
                 <div className="flex justify-between items-center">
-                   <label className="text-[10px] font-bold bg-muted hover:bg-accent px-3 py-2 rounded-lg cursor-pointer transition-colors border border-border border-dashed text-muted-foreground uppercase tracking-wider">
-                      Upload File
-                      <input type="file" accept=".txt,.md" className="hidden" onChange={handleFileUpload} />
+                   <label
+                      title="Text, Markdown, HTML, PDF or Word files, ingested one by one"
+                      className={cn(
+                        "text-[10px] font-bold bg-muted hover:bg-accent px-3 py-2 rounded-lg cursor-pointer transition-colors border border-border border-dashed text-muted-foreground uppercase tracking-wider",
+                        (isIngesting || !isReady) && "opacity-50 pointer-events-none"
+                      )}
+                    >
+                      Upload Files
+                      <input
+                        type="file"
+                        multiple
+                        accept=".txt,.md,.markdown,.html,.htm,.pdf,.docx"
+                        disabled={isIngesting || !isReady}
+                        className="hidden"
+                        onChange={handleFileUpload}
+                      />
                     </label>
                    <Button 
                     onClick={handleIngest} 
-                    disabled={isIngesting || !ingestText.trim() || !isModelLoaded}
+                    disabled={isIngesting || !ingestText.trim() || !isReady || chunkSize < 1}
                     className="bg-indigo-600 hover:bg-indigo-500 text-white px-6 shadow-lg shadow-indigo-600/20"
                   >
                     {isIngesting ? <Loader2 className="w-4 h-4 animate-spin" /> : 'Ingest'}
                   </Button>
                 </div>
+                {ingestReport && (
+                  <div className="flex flex-wrap gap-x-3 gap-y-1 text-[10px] font-bold uppercase tracking-wider border-t border-border pt-3">
+                    <span className="text-muted-foreground">{ingestReport.created ? 'New document' : 'Existing document'}</span>
+                    <span className="text-emerald-500">{ingestReport.inserted.length} inserted</span>
+                    <span className="text-amber-500">{ingestReport.updated.length} updated</span>
+                    <span className="text-muted-foreground">{ingestReport.skipped.length} skipped</span>
+                    {ingestReport.deleted.length > 0 && <span className="text-red-500">{ingestReport.deleted.length} removed</span>}
+                  </div>
+                )}
+                {ingestError && <p className="text-xs text-red-500">{ingestError}</p>}
+                {uploads.length > 0 && (
+                  <ul className="space-y-1.5 border-t border-border pt-3">
+                    {uploads.map((upload, index) => (
+                      <li key={index} className="flex items-baseline gap-3 text-[10px]">
+                        <span className="font-mono truncate flex-1 min-w-0">{upload.name}</span>
+                        {upload.status === 'error' ? (
+                          <span className="text-red-500 text-right">{upload.error}</span>
+                        ) : upload.report ? (
+                          <span className="font-bold uppercase tracking-wider whitespace-nowrap">
+                            <span className="text-emerald-500">{upload.report.inserted.length} inserted</span>
+                            {' · '}<span className="text-amber-500">{upload.report.updated.length} updated</span>
+                            {' · '}<span className="text-muted-foreground">{upload.report.skipped.length} skipped</span>
+                            {upload.report.deleted.length > 0 && <>{' · '}<span className="text-red-500">{upload.report.deleted.length} removed</span></>}
+                          </span>
+                        ) : (
+                          <span className="flex items-center gap-1 text-muted-foreground uppercase tracking-wider font-bold">
+                            <Loader2 className="w-3 h-3 animate-spin" />
+                            {upload.status}
+                          </span>
+                        )}
+                      </li>
+                    ))}
+                  </ul>
+                )}
               </CardContent>
             </Card>
+            <CorpusImportPanel
+              createStrategy={createStrategy}
+              disabled={isIngesting || !isReady}
+            />
           </section>
 
           {/* Search Column */}
@@ -206,42 +535,216 @@ export function Sandbox() {
               <Search className="w-4 h-4" />
               Retrieval
             </div>
+            {conversationMode && (
+              <ConversationPanel
+                activeId={conversationId}
+                messages={conversationMessages}
+                onSelect={selectConversation}
+                disabled={isSearching}
+              />
+            )}
             <div className="flex gap-2">
               <Input
                 value={searchQuery}
                 onChange={(e) => setSearchQuery(e.target.value)}
                 onKeyDown={(e) => e.key === 'Enter' && handleSearch()}
-                placeholder="Ask something..."
+                placeholder={conversationMode && conversationMessages.length > 0 ? "Ask a follow-up..." : "Ask something..."}
                 className="bg-card border-border h-11 rounded-xl"
               />
-              <Button onClick={handleSearch} disabled={isSearching || !isModelLoaded} className="bg-purple-600 hover:bg-purple-500 px-6 h-11">
+              <Button onClick={handleSearch} disabled={isSearching || !isReady} className="bg-purple-600 hover:bg-purple-500 px-6 h-11">
                 {isSearching ? <Loader2 className="w-4 h-4 animate-spin" /> : 'Search'}
               </Button>
             </div>
+            <div className="flex gap-2 items-center">
+              <div className="flex bg-muted p-1 rounded-lg border border-border">
+                {(['vector', 'keyword', 'hybrid'] as const).map(mode => (
+                  <button
+                    key={mode}
+                    onClick={() => setSearchMode(mode)}
+                    className={cn(
+                      "px-3 py-1 rounded-md text-[10px] font-bold uppercase tracking-wider transition-all",
+                      searchMode === mode ? "bg-card text-foreground shadow-sm" : "text-muted-foreground hover:text-foreground"
+                    )}
+                  >
+                    {mode}
+                  </button>
+                ))}
+              </div>
+              {searchMode === 'hybrid' && (
+                <select
+                  value={fusionMethod}
+                  onChange={(e) => setFusionMethod(e.target.value as FusionMethod)}
+                  className="h-8 bg-background/50 border border-border rounded-lg px-3 text-xs focus:outline-none focus:ring-2 focus:ring-purple-500/50"
+                >
+                  <option value="rrf">Reciprocal Rank Fusion</option>
+                  <option value="weighted">Weighted Scores</option>
+                </select>
+              )}
+              <label className="ml-auto flex items-center gap-2 cursor-pointer text-[10px] font-bold uppercase tracking-wider text-muted-foreground" title="Keep a chat history and read follow-up questions in its context">
+                <input
+                  type="checkbox"
+                  checked={conversationMode}
+                  onChange={(e) => setConversationMode(e.target.checked)}
+                  disabled={isSearching}
+                  className="accent-purple-500"
+                />
+                Conversation
+              </label>
+            </div>
+            <MetadataFilterBar
+              filters={metadataFilters}
+              matchAll={matchAllFilters}
+              onFiltersChange={setMetadataFilters}
+              onMatchAllChange={setMatchAllFilters}
+            />
+            <div className="flex flex-wrap gap-4 items-center text-[10px] font-bold text-muted-foreground uppercase tracking-wider">
+              <label className="flex items-center gap-2 cursor-pointer">
+                <input type="checkbox" checked={useMmr} onChange={(e) => setUseMmr(e.target.checked)} className="accent-purple-500" />
+                Diversify (MMR)
+              </label>
+              {useMmr && (
+                <label className="flex items-center gap-2" title="1 = pure relevance, 0 = maximum diversity">
+                  λ
+                  <Input
+                    type="number"
+                    min={0}
+                    max={1}
+                    step={0.1}
+                    value={mmrLambda}
+                    onChange={(e) => setMmrLambda(Number(e.target.value))}
+                    className="w-16 h-7 bg-background/50 border-border rounded-lg text-xs"
+                  />
+                </label>
+              )}
+              <label className="flex items-center gap-2" title="Most tokens the document answer prompt may use; lower-ranked results that do not fit are left out">
+                Context budget
+                <Input
+                  type="number"
+                  min={64}
+                  step={64}
+                  value={contextBudget}
+                  onChange={(e) => setContextBudget(Number(e.target.value))}
+                  className="w-20 h-7 bg-background/50 border-border rounded-lg text-xs"
+                />
+              </label>
+              <label className="flex items-center gap-2" title="Results below this cosine similarity are dropped before answering">
+                Min similarity
+                <Input
+                  type="number"
+                  min={0}
+                  max={1}
+                  step={0.05}
+                  value={minSimilarity}
+                  onChange={(e) => setMinSimilarity(Number(e.target.value))}
+                  className="w-16 h-7 bg-background/50 border-border rounded-lg text-xs"
+                />
+              </label>
+              <label className="flex items-center gap-2 cursor-pointer" title="Re-score the top candidates with a cross-encoder and keep the best 5">
+                <input type="checkbox" checked={useRerank} onChange={(e) => setUseRerank(e.target.checked)} className="accent-purple-500" />
+                Re-rank
+              </label>
+              {useRerank && (
+                <label className="flex items-center gap-2" title="Candidates passed to the cross-encoder">
+                  of top
+                  <Input
+                    type="number"
+                    min={5}
+                    value={rerankCandidates}
+                    onChange={(e) => setRerankCandidates(Number(e.target.value))}
+                    className="w-16 h-7 bg-background/50 border-border rounded-lg text-xs"
+                  />
+                </label>
+              )}
+            </div>
+
+            <PromptTemplatesPanel disabled={isSearching} />
 
             <div className="space-y-4">
+               {hybridAnswer && <HybridAnswerCard answer={hybridAnswer} selected={selectedCitation} onSelect={selectCitation} />}
+
                {isAnsweringWorld && !worldAnswer && <div className="h-24 bg-card animate-pulse rounded-xl border border-border" />}
                {worldAnswer && (
                  <Card className="bg-blue-500/5 border-blue-500/10 transition-colors">
-                   <CardHeader className="py-3"><CardTitle className="text-xs text-blue-500 flex items-center gap-2"><Globe className="w-3 h-3" /> World Knowledge</CardTitle></CardHeader>
-                   <CardContent className="pb-3 text-sm text-foreground/80 leading-relaxed">{worldAnswer}</CardContent>
+                   <CardHeader className="py-3 flex-row items-center justify-between space-y-0">
+                     <CardTitle className="text-xs text-blue-500 flex items-center gap-2"><Globe className="w-3 h-3" /> World Knowledge</CardTitle>
+                     {isAnsweringWorld && <StreamControls onStop={() => stopStream(worldStream, false)} onCancel={() => stopStream(worldStream, true)} />}
+                   </CardHeader>
+                   <CardContent className="pb-3 text-sm text-foreground/80 leading-relaxed whitespace-pre-wrap">
+                     {worldAnswer}
+                     {isAnsweringWorld && <StreamCursor />}
+                     {worldReasoning && <ReasoningDetails reasoning={worldReasoning} />}
+                   </CardContent>
                  </Card>
                )}
 
                {isAnsweringLocal && !localAnswer && <div className="h-24 bg-card animate-pulse rounded-xl border border-border" />}
                {localAnswer && (
                  <Card className="bg-indigo-500/10 border-indigo-500/20 transition-colors">
-                   <CardHeader className="py-3"><CardTitle className="text-xs text-indigo-500 flex items-center gap-2"><BookOpen className="w-3 h-3" /> Document Knowledge</CardTitle></CardHeader>
-                   <CardContent className="pb-3 text-sm text-foreground/80 leading-relaxed">{localAnswer}</CardContent>
+                   <CardHeader className="py-3 flex-row items-center justify-between space-y-0">
+                     <CardTitle className="text-xs text-indigo-500 flex items-center gap-2"><BookOpen className="w-3 h-3" /> Document Knowledge</CardTitle>
+                     {isAnsweringLocal && <StreamControls onStop={() => stopStream(localStream, false)} onCancel={() => stopStream(localStream, true)} />}
+                   </CardHeader>
+                   <CardContent className="pb-3 text-sm text-foreground/80 leading-relaxed whitespace-pre-wrap">
+                     {groundedAnswer ? <CitedAnswer answer={groundedAnswer} selected={selectedCitation} onSelect={selectCitation} /> : localAnswer}
+                     {isAnsweringLocal && <StreamCursor />}
+                     {groundedAnswer?.reasoning && <ReasoningDetails reasoning={groundedAnswer.reasoning} />}
+                     {groundedAnswer && groundedAnswer.packing.dropped.length > 0 && (
+                       <p className="mt-2 text-[10px] text-amber-500 whitespace-normal">
+                         {groundedAnswer.packing.dropped.length} of {results.length} results left out to fit the {groundedAnswer.packing.maxTokens}-token context budget
+                         ({groundedAnswer.packing.reservedTokens} tokens reserved for the instructions and question)
+                       </p>
+                     )}
+                   </CardContent>
                  </Card>
                )}
 
                {results.map((res) => (
-                 <Card key={res.id} className="bg-card border-border hover:border-indigo-500/30 transition-all px-4 py-3 flex gap-4 items-center group shadow-sm">
+                 <Card
+                   key={res.id}
+                   id={`result-${res.id}`}
+                   className={cn(
+                     "bg-card border-border hover:border-indigo-500/30 transition-all px-4 py-3 flex gap-4 items-center group shadow-sm",
+                     selectedCitation?.chunkId === res.id && "border-indigo-500/60 ring-2 ring-indigo-500/30"
+                   )}
+                 >
                     <div className="flex-1 min-w-0">
-                      <p className="text-xs text-muted-foreground truncate italic">"{res.content}"</p>
+                      <p className="text-[10px] font-bold text-indigo-400 truncate uppercase tracking-wider">
+                        {groundedAnswer && (promptNumber(res.id) > 0 ? (
+                          <span className={cn("mr-1.5", groundedAnswer.citedChunkIds.includes(res.id) ? "text-indigo-500" : "text-muted-foreground")}>[{promptNumber(res.id)}]</span>
+                        ) : (
+                          <span className="mr-1.5 text-muted-foreground normal-case tracking-normal font-normal" title="Left out of the answer prompt to stay within the context budget">not in prompt</span>
+                        ))}
+                        {res.sourceTitle}
+                      </p>
+                      {Array.isArray(res.metadata.sectionPath) && (
+                        <p className="text-[10px] text-muted-foreground truncate">{res.metadata.sectionPath.join(' › ')}</p>
+                      )}
+                      {typeof res.metadata.pageStart === 'number' && (
+                        <p className="text-[10px] text-muted-foreground">
+                          {res.metadata.pageStart === res.metadata.pageEnd ? `p. ${res.metadata.pageStart}` : `pp. ${res.metadata.pageStart}–${res.metadata.pageEnd}`}
+                        </p>
+                      )}
+                      {selectedCitation?.chunkId === res.id ? (
+                        <p className="text-xs text-muted-foreground italic">
+                          "<QuotedContent content={res.content} citations={groundedAnswer?.citations.filter(c => c.chunkId === res.id && c.start === selectedCitation.start) ?? []} />"
+                        </p>
+                      ) : (
+                        <p className="text-xs text-muted-foreground truncate italic">"{res.content}"</p>
+                      )}
+                    </div>
+                    <div className="text-right whitespace-nowrap">
+                      <div className="text-[10px] font-bold text-emerald-500">{Math.round(res.similarity * 100)}%</div>
+                      {res.rerankScore !== undefined && (
+                        <div className="text-[10px] font-bold text-amber-500" title="Cross-encoder relevance">
+                          rerank {res.rerankScore.toFixed(2)}
+                        </div>
+                      )}
+                      {searchMode !== 'vector' && (
+                        <div className="text-[9px] font-mono text-muted-foreground" title="Vector / lexical / fused score">
+                          V {res.vectorScore.toFixed(2)} · L {res.lexicalScore.toFixed(2)} · F {res.fusedScore.toFixed(3)}
+                        </div>
+                      )}
                     </div>
-                    <div className="text-[10px] font-bold text-emerald-500 whitespace-nowrap">{Math.round(res.similarity * 100)}%</div>
                  </Card>
                ))}
             </div>
@@ -266,6 +769,33 @@ export function Sandbox() {
               </div>
            </div>
            
+           <VectorIndexPanel tuning={searchTuning} onTuningChange={setSearchTuning} />
+
+           <EmbeddingModelPanel onComplete={fetchDbData} />
+
+           <KnowledgeArchivePanel onImported={fetchDbData} />
+
+           {cacheStats && (
+             <Card className="bg-card border-border overflow-hidden shadow-xl transition-colors">
+               <CardContent className="py-4 flex flex-wrap items-center gap-x-6 gap-y-2 text-[10px] font-bold uppercase tracking-wider text-muted-foreground">
+                 <span className="text-foreground">Embedding Cache</span>
+                 <span>{cacheStats.entries} / {cacheStats.capacity} entries</span>
+                 <span className="text-emerald-500">
+                   {cacheStats.hits + cacheStats.misses > 0
+                     ? `${Math.round((cacheStats.hits / (cacheStats.hits + cacheStats.misses)) * 100)}% hit rate`
+                     : 'No lookups yet'}
+                 </span>
+                 <span>{cacheStats.hits} hits · {cacheStats.misses} misses this session</span>
+                 <Button onClick={clearEmbeddingCache} variant="ghost" size="sm" className="h-7 ml-auto gap-1.5 text-red-500 hover:bg-red-500/5">
+                   <Trash2 className="w-3 h-3" />
+                   Clear cache
+                 </Button>
+               </CardContent>
+             </Card>
+           )}
+
+           <SourcesPanel sources={sources} onChange={fetchDbData} />
+
            <Card className="bg-card border-border overflow-hidden shadow-2xl backdrop-blur-xl transition-colors">
               <div className="overflow-x-auto">
                  <table className="w-full text-left border-separate border-spacing-0">
@@ -282,12 +812,13 @@ export function Sandbox() {
                             <td className="px-6 py-4 align-top font-mono text-indigo-500 text-xs font-bold whitespace-nowrap pt-5">#{row.id}</td>
                             <td className="px-6 py-4 align-top">
                                <div className="max-w-2xl">
+                                  <p className="text-[10px] font-bold text-indigo-400 uppercase tracking-wider mb-1">{row.source_title} · chunk {row.chunk_index}</p>
                                   <p className="text-sm text-foreground/90 leading-relaxed font-light">{row.content}</p>
                                   {row.metadata && (
                                     <div className="mt-2 flex flex-wrap gap-1.5">
                                       {Object.entries(row.metadata).map(([k, v]) => (
                                         <span key={k} className="text-[9px] px-1.5 py-0.5 rounded-md bg-muted border border-border text-muted-foreground uppercase tracking-tighter">
-                                          {k}: {String(v)}
+                                          {k}: {typeof v === 'object' ? JSON.stringify(v) : String(v)}
                                         </span>
                                       ))}
                                     </div>
@@ -304,6 +835,7 @@ export function Sandbox() {
                                     />
                                   ))}
                                 </div>
+                                <p className="text-[9px] font-mono text-muted-foreground mt-1.5">{row.embedding_model.split('/').pop()} · {row.embedding.length}d</p>
                             </td>
                          </tr>
                        ))}
@@ -324,3 +856,30 @@ export function Sandbox() {
     </div>
   );
 }
+
+function StreamControls({ onStop, onCancel }: { onStop: () => void; onCancel: () => void }) {
+  return (
+    <div className="flex items-center gap-1">
+      <Button variant="ghost" size="sm" onClick={onStop} title="Stop generating and keep the answer so far" className="h-6 px-2 gap-1 text-[10px] text-muted-foreground hover:text-foreground">
+        <Square className="w-2.5 h-2.5" /> Stop
+      </Button>
+      <Button variant="ghost" size="sm" onClick={onCancel} title="Stop generating and discard the answer" className="h-6 px-2 gap-1 text-[10px] text-muted-foreground hover:text-red-500">
+        <X className="w-2.5 h-2.5" /> Cancel
+      </Button>
+    </div>
+  );
+}
+
+function StreamCursor() {
+  return <span className="inline-block w-1.5 h-3.5 ml-0.5 align-middle bg-current opacity-60 animate-pulse" />;
+}
+
+// Shown when the model separated its reasoning from the final answer
+function ReasoningDetails({ reasoning }: { reasoning: string }) {
+  return (
+    <details className="mt-3 text-xs text-muted-foreground whitespace-normal">
+      <summary className="cursor-pointer text-[10px] font-bold uppercase tracking-wider">Reasoning</summary>
+      <p className="mt-1 whitespace-pre-wrap">{reasoning}</p>
+    </details>
+  );
+}
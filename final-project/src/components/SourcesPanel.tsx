@@ -0,0 +1,105 @@
+import { useState } from 'react';
+import { FileText, Pencil, RefreshCw, Trash2, Check, X, Loader2 } from 'lucide-react';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Card } from './ui/card';
+import { SourceService, type Source } from '../lib/sources';
+
+interface SourcesPanelProps {
+  sources: Source[];
+  onChange: () => void;
+}
+
+export function SourcesPanel({ sources, onChange }: SourcesPanelProps) {
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [draftTitle, setDraftTitle] = useState('');
+  const [busyId, setBusyId] = useState<number | null>(null);
+
+  const run = async (id: number, action: () => Promise<unknown>) => {
+    setBusyId(id);
+    try {
+      await action();
+      onChange();
+    } catch (error) {
+      console.error(error);
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const startRename = (source: Source) => {
+    setEditingId(source.id);
+    setDraftTitle(source.title);
+  };
+
+  const saveRename = (id: number) => {
+    const title = draftTitle.trim();
+    setEditingId(null);
+    if (title) run(id, () => SourceService.rename(id, title));
+  };
+
+  const handleDelete = (source: Source) => {
+    if (!confirm(`Delete "${source.title}" and its ${source.chunkCount} chunks?`)) return;
+    run(source.id, () => SourceService.remove(source.id));
+  };
+
+  if (sources.length === 0) return null;
+
+  return (
+    <Card className="bg-card border-border overflow-hidden shadow-xl transition-colors divide-y divide-border">
+      {sources.map(source => (
+        <div key={source.id} className="flex items-center gap-4 px-6 py-3 group hover:bg-muted/50 transition-colors">
+          <FileText className="w-4 h-4 text-indigo-400 shrink-0" />
+          <div className="flex-1 min-w-0">
+            {editingId === source.id ? (
+              <div className="flex items-center gap-2">
+                <Input
+                  autoFocus
+                  value={draftTitle}
+                  onChange={(e) => setDraftTitle(e.target.value)}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter') saveRename(source.id);
+                    if (e.key === 'Escape') setEditingId(null);
+                  }}
+                  className="h-8 text-sm bg-background/50 border-border"
+                />
+                <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => saveRename(source.id)}>
+                  <Check className="w-3.5 h-3.5" />
+                </Button>
+                <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => setEditingId(null)}>
+                  <X className="w-3.5 h-3.5" />
+                </Button>
+              </div>
+            ) : (
+              <p className="text-sm font-medium truncate">{source.title}</p>
+            )}
+            <p className="text-[10px] text-muted-foreground uppercase tracking-wider mt-0.5">
+              {source.chunkCount} chunks · {source.origin} · {new Date(source.createdAt).toLocaleString()}
+            </p>
+          </div>
+          {busyId === source.id ? (
+            <Loader2 className="w-4 h-4 animate-spin text-muted-foreground" />
+          ) : (
+            <div className="flex gap-1 opacity-60 group-hover:opacity-100 transition-opacity">
+              <Button variant="ghost" size="icon" className="h-8 w-8" title="Rename" onClick={() => startRename(source)}>
+                <Pencil className="w-3.5 h-3.5" />
+              </Button>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-8 w-8"
+                title={source.metadata.rechunkable === false ? "Migrated from overlapping chunks, cannot be re-ingested" : "Re-ingest"}
+                disabled={source.metadata.rechunkable === false}
+                onClick={() => run(source.id, () => SourceService.reingest(source.id))}>
+                <RefreshCw className="w-3.5 h-3.5" />
+              </Button>
+              <Button variant="ghost" size="icon" className="h-8 w-8 text-red-500 hover:bg-red-500/5" title="Delete" onClick={() => handleDelete(source)}>
+                <Trash2 className="w-3.5 h-3.5" />
+              </Button>
+            </div>
+          )}
+        </div>
+      ))}
+    </Card>
+  );
+}
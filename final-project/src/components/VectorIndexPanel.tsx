@@ -0,0 +1,141 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Gauge, Hammer, Loader2, RefreshCw } from 'lucide-react';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Card, CardContent } from './ui/card';
+import { VectorDatabase, DEFAULT_INDEX_CONFIGS, type VectorIndexType, type VectorIndexStatus } from '../lib/pglite';
+import type { SearchOptions } from '../lib/search';
+
+export type SearchTuning = Required<Pick<SearchOptions, 'efSearch' | 'probes'>>;
+
+interface VectorIndexPanelProps {
+  tuning: SearchTuning;
+  onTuningChange: (tuning: SearchTuning) => void;
+}
+
+function NumberField({ label, value, onChange }: { label: string; value: number; onChange: (value: number) => void }) {
+  return (
+    <label className="flex flex-col gap-1 text-[10px] font-bold text-muted-foreground uppercase tracking-wider">
+      {label}
+      <Input
+        type="number"
+        min={1}
+        value={value}
+        onChange={(e) => onChange(Number(e.target.value))}
+        className="w-28 h-8 bg-background/50 border-border rounded-lg text-xs"
+      />
+    </label>
+  );
+}
+
+export function VectorIndexPanel({ tuning, onTuningChange }: VectorIndexPanelProps) {
+  const [status, setStatus] = useState<VectorIndexStatus | null>(null);
+  const [indexType, setIndexType] = useState<VectorIndexType>('hnsw');
+  const [m, setM] = useState<number>(DEFAULT_INDEX_CONFIGS.hnsw.m);
+  const [efConstruction, setEfConstruction] = useState<number>(DEFAULT_INDEX_CONFIGS.hnsw.efConstruction);
+  const [lists, setLists] = useState<number>(DEFAULT_INDEX_CONFIGS.ivfflat.lists);
+  const [isBusy, setIsBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const refreshStatus = useCallback(async () => {
+    try {
+      setStatus(await VectorDatabase.getIndexStatus());
+    } catch (error) {
+      console.error(error);
+    }
+  }, []);
+
+  useEffect(() => {
+    refreshStatus();
+  }, [refreshStatus]);
+
+  const run = async (action: () => Promise<void>) => {
+    setIsBusy(true);
+    setError(null);
+    try {
+      await action();
+      await refreshStatus();
+    } catch (error) {
+      console.error(error);
+      setError(error instanceof Error ? error.message : String(error));
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const applyIndex = () => run(() => {
+    switch (indexType) {
+      case 'hnsw':
+        return VectorDatabase.createIndex({ type: 'hnsw', m, efConstruction });
+      case 'ivfflat':
+        return VectorDatabase.createIndex({ type: 'ivfflat', lists });
+      case 'exact':
+        return VectorDatabase.createIndex({ type: 'exact' });
+    }
+  });
+
+  return (
+    <Card className="bg-card border-border overflow-hidden shadow-xl transition-colors">
+      <CardContent className="pt-6 space-y-4">
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-2 text-xs font-bold uppercase tracking-widest text-muted-foreground">
+            <Gauge className="w-3.5 h-3.5 text-emerald-400" />
+            Vector Index
+          </div>
+          {status && (
+            <span className="text-[10px] font-mono text-muted-foreground">
+              {status.type === 'exact' ? 'exact scan' : status.type}
+              {Object.entries(status.params).map(([k, v]) => ` ${k}=${v}`).join('')}
+              {' · '}{status.rowCount} rows
+              {status.sizeBytes > 0 && ` · ${(status.sizeBytes / 1024).toFixed(0)} KB`}
+            </span>
+          )}
+        </div>
+
+        <div className="flex flex-wrap items-end gap-3">
+          <label className="flex flex-col gap-1 text-[10px] font-bold text-muted-foreground uppercase tracking-wider">
+            Type
+            <select
+              value={indexType}
+              onChange={(e) => setIndexType(e.target.value as VectorIndexType)}
+              className="h-8 bg-background/50 border border-border rounded-lg px-3 text-xs normal-case tracking-normal font-normal text-foreground focus:outline-none focus:ring-2 focus:ring-emerald-500/50"
+            >
+              <option value="hnsw">HNSW</option>
+              <option value="ivfflat">IVFFlat</option>
+              <option value="exact">Exact (no index)</option>
+            </select>
+          </label>
+          {indexType === 'hnsw' && (
+            <>
+              <NumberField label="m" value={m} onChange={setM} />
+              <NumberField label="ef_construction" value={efConstruction} onChange={setEfConstruction} />
+            </>
+          )}
+          {indexType === 'ivfflat' && <NumberField label="lists" value={lists} onChange={setLists} />}
+          <Button onClick={applyIndex} disabled={isBusy} size="sm" className="h-8 gap-1.5 bg-emerald-600 hover:bg-emerald-500 text-white">
+            {isBusy ? <Loader2 className="w-3 h-3 animate-spin" /> : <Hammer className="w-3 h-3" />}
+            Create
+          </Button>
+          <Button
+            onClick={() => run(() => VectorDatabase.rebuildIndex())}
+            disabled={isBusy || status?.type === 'exact'}
+            variant="outline"
+            size="sm"
+            className="h-8 gap-1.5 border-border hover:bg-accent"
+          >
+            <RefreshCw className="w-3 h-3" />
+            Rebuild
+          </Button>
+        </div>
+
+        <div className="flex flex-wrap items-end gap-3 border-t border-border pt-4">
+          <NumberField label="hnsw.ef_search" value={tuning.efSearch} onChange={(efSearch) => onTuningChange({ ...tuning, efSearch })} />
+          <NumberField label="ivfflat.probes" value={tuning.probes} onChange={(probes) => onTuningChange({ ...tuning, probes })} />
+          <p className="text-[10px] text-muted-foreground pb-2">Applied to every search in the RAG Explorer.</p>
+        </div>
+
+        {error && <p className="text-xs text-red-500">{error}</p>}
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,5 +1,8 @@
 import React, { createContext, useContext, useState, useEffect } from 'react';
 import { EmbeddingService } from '../lib/embeddings';
+import { AIWorker } from '../lib/ai-worker';
+import { VectorDatabase } from '../lib/pglite';
+import { MigrationError } from '../lib/migrations';
 
 interface AIContextType {
   isModelLoaded: boolean;
@@ -7,6 +10,9 @@ interface AIContextType {
   status: string;
   setStatus: (s: string) => void;
   setModelProgress: (p: number) => void;
+  isDbReady: boolean;
+  // Set when the database could not be opened, e.g. because a schema migration failed
+  dbError: string | null;
 }
 
 const AIContext = createContext<AIContextType | undefined>(undefined);
@@ -15,14 +21,21 @@ export function AIProvider({ children }: { children: React.ReactNode }) {
   const [isModelLoaded, setIsModelLoaded] = useState(false);
   const [modelProgress, setModelProgress] = useState(0);
   const [status, setStatus] = useState('Ready');
+  const [isDbReady, setIsDbReady] = useState(false);
+  const [dbError, setDbError] = useState<string | null>(null);
+
+  // Model downloads happen in the AI worker; mirror their progress here
+  useEffect(() => {
+    return AIWorker.subscribe((event) => {
+      if (event.type === 'progress') setModelProgress(event.progress);
+    });
+  }, []);
 
   useEffect(() => {
     const init = async () => {
       setStatus('Loading Embedding Model...');
       try {
-        await EmbeddingService.getPipeline((progress) => {
-          setModelProgress(progress);
-        });
+        await EmbeddingService.load();
         setIsModelLoaded(true);
         setStatus('Model Ready');
       } catch (error) {
@@ -33,8 +46,19 @@ export function AIProvider({ children }: { children: React.ReactNode }) {
     init();
   }, []);
 
+  useEffect(() => {
+    VectorDatabase.getInstance()
+      .then(() => setIsDbReady(true))
+      .catch((error) => {
+        console.error(error);
+        setDbError(error instanceof MigrationError
+          ? `Database upgrade failed. ${error.message}`
+          : `Failed to open database: ${error instanceof Error ? error.message : String(error)}`);
+      });
+  }, []);
+
   return (
-    <AIContext.Provider value={{ isModelLoaded, modelProgress, status, setStatus, setModelProgress }}>
+    <AIContext.Provider value={{ isModelLoaded, modelProgress, status, setStatus, setModelProgress, isDbReady, dbError }}>
       {children}
     </AIContext.Provider>
   );
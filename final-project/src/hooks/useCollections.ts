@@ -0,0 +1,14 @@
+import { useSyncExternalStore } from 'react';
+import { CollectionService } from '../lib/collections';
+
+export function useCollections() {
+  const { collections, activeId } = useSyncExternalStore(
+    (listener) => CollectionService.subscribe(listener),
+    () => CollectionService.getState()
+  );
+
+  return {
+    collections,
+    activeCollection: collections.find(c => c.id === activeId)!,
+  };
+}
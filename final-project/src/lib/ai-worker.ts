@@ -0,0 +1,137 @@
+import type { AIRequest, AIResponse } from '../workers/ai.worker';
+import type { AIArgs, AIEvent, AIMethod, AIResult } from './pipelines';
+
+export type ProgressCallback = (progress: number) => void;
+
+export interface CallOptions {
+  onProgress?: ProgressCallback;
+  // Receives generated text piece by piece while a generation call runs
+  onToken?: (text: string) => void;
+  // Aborting stops a generation call early; it then resolves with the text produced so far
+  signal?: AbortSignal;
+}
+
+// The streaming half of `CallOptions`, for services that generate text
+export type StreamOptions = Pick<CallOptions, 'onToken' | 'signal'>;
+
+interface PendingCall {
+  method: AIMethod;
+  args: unknown;
+  options: CallOptions;
+  resolve: (result: unknown) => void;
+  reject: (error: Error) => void;
+}
+
+/**
+ * RPC client for the AI worker. Transformers.js pipelines run in a dedicated
+ * Web Worker so model loading and inference never block the UI. When workers
+ * are unavailable (or the worker fails to start) calls run on the main thread.
+ */
+export class AIWorker {
+  // undefined until the first call, null once we have fallen back to the main thread
+  private static worker: Worker | null | undefined;
+  private static nextId = 0;
+  private static pending = new Map<number, PendingCall>();
+  private static listeners = new Set<(event: AIEvent) => void>();
+
+  /**
+   * Subscribes to every event emitted by any call, e.g. model download progress.
+   * @returns A function that removes the listener.
+   */
+  static subscribe(listener: (event: AIEvent) => void): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  static call<M extends AIMethod>(method: M, args: AIArgs<M>, options: CallOptions = {}): Promise<AIResult<M>> {
+    return new Promise((resolve, reject) => {
+      const call: PendingCall = { method, args, options, resolve: resolve as (result: unknown) => void, reject };
+      const worker = this.getWorker();
+
+      if (!worker) {
+        this.runLocally(call);
+        return;
+      }
+
+      const id = this.nextId++;
+      this.pending.set(id, call);
+      worker.postMessage({ type: 'call', id, method, args } satisfies AIRequest);
+      options.signal?.addEventListener('abort', () => {
+        // Once the worker has been replaced by the main thread, the call sees the signal itself
+        if (this.pending.has(id)) this.worker?.postMessage({ type: 'cancel', id } satisfies AIRequest);
+      }, { once: true });
+    });
+  }
+
+  private static getWorker(): Worker | null {
+    if (this.worker !== undefined) return this.worker;
+
+    if (typeof Worker === 'undefined') {
+      this.worker = null;
+      return null;
+    }
+
+    try {
+      this.worker = new Worker(new URL('../workers/ai.worker.ts', import.meta.url), { type: 'module' });
+      this.worker.addEventListener('message', (e: MessageEvent<AIResponse>) => this.handleResponse(e.data));
+      this.worker.addEventListener('error', (e) => {
+        e.preventDefault();
+        this.fallBack(e.message);
+      });
+    } catch (error) {
+      console.warn('AI worker unavailable, running models on the main thread', error);
+      this.worker = null;
+    }
+
+    return this.worker;
+  }
+
+  private static handleResponse(response: AIResponse) {
+    const call = this.pending.get(response.id);
+    if (!call) return;
+
+    switch (response.type) {
+      case 'event':
+        this.dispatch(call, response.event);
+        break;
+      case 'result':
+        this.pending.delete(response.id);
+        call.resolve(response.result);
+        break;
+      case 'error':
+        this.pending.delete(response.id);
+        call.reject(new Error(response.message));
+        break;
+    }
+  }
+
+  /**
+   * Tears down a broken worker and replays its in-flight calls on the main thread.
+   */
+  private static fallBack(reason: string) {
+    console.warn(`AI worker failed (${reason}), running models on the main thread`);
+    this.worker?.terminate();
+    this.worker = null;
+
+    const calls = Array.from(this.pending.values());
+    this.pending.clear();
+    calls.forEach(call => this.runLocally(call));
+  }
+
+  private static async runLocally(call: PendingCall) {
+    try {
+      // Loaded lazily so the main bundle only pulls in Transformers.js when it is needed
+      const { handlers } = await import('./pipelines');
+      const handler = handlers[call.method] as (args: unknown, emit: (event: AIEvent) => void, signal?: AbortSignal) => Promise<unknown>;
+      call.resolve(await handler(call.args, (event) => this.dispatch(call, event), call.options.signal));
+    } catch (error) {
+      call.reject(error instanceof Error ? error : new Error(String(error)));
+    }
+  }
+
+  private static dispatch(call: PendingCall, event: AIEvent) {
+    this.listeners.forEach(listener => listener(event));
+    if (event.type === 'progress') call.options.onProgress?.(event.progress);
+    if (event.type === 'token') call.options.onToken?.(event.text);
+  }
+}
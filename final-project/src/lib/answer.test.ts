@@ -0,0 +1,96 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { AIWorker } from './ai-worker';
+import { AnswerService } from './answer';
+import type { SearchResult } from './search';
+
+vi.mock('./ai-worker', () => ({ AIWorker: { call: vi.fn() } }));
+
+function result(id: number, content: string): SearchResult {
+  return {
+    id,
+    content,
+    metadata: {},
+    similarity: 0.8,
+    sourceId: 1,
+    sourceTitle: 'Planets',
+    chunkIndex: id - 1,
+    vectorScore: 0.8,
+    lexicalScore: 0,
+    fusedScore: 0.8,
+  };
+}
+
+const CONTEXT = [
+  result(11, 'Jupiter is the largest planet in the solar system.'),
+  result(12, 'Saturn has the most spectacular rings of all planets.'),
+];
+
+let prompts: string[] = [];
+
+// The answer model "generates" `output`; tokens are counted as a quarter of the characters
+function generates(output: string) {
+  vi.mocked(AIWorker.call).mockImplementation(async (method, args) => {
+    if (method === 'countTokens') {
+      return (args as { texts: string[] }).texts.map(text => Math.ceil(text.length / 4)) as never;
+    }
+    prompts.push((args as { prompt: string }).prompt);
+    return output as never;
+  });
+}
+
+beforeEach(() => {
+  prompts = [];
+});
+
+describe('AnswerService.answer', () => {
+  it('turns markers into citations of the numbered chunks', async () => {
+    generates('Reasoning: Both passages help.\nFinal Answer: Jupiter is the largest [1]. Saturn has rings [2][1].');
+    const answer = await AnswerService.answer('Tell me about planets', CONTEXT);
+
+    expect(answer.text).toBe('Jupiter is the largest. Saturn has rings.');
+    expect(answer.reasoning).toBe('Both passages help.');
+    expect(answer.citations.map(c => [c.number, c.chunkId, answer.text.slice(c.start, c.end), c.explicit])).toEqual([
+      [1, 11, 'Jupiter is the largest.', true],
+      [2, 12, 'Saturn has rings.', true],
+      [1, 11, 'Saturn has rings.', true],
+    ]);
+    expect(answer.citedChunkIds).toEqual([11, 12]);
+  });
+
+  it('attaches a marker written after the full stop to the sentence before it', async () => {
+    generates('Jupiter is the largest planet.[1] Saturn has rings.');
+    const answer = await AnswerService.answer('Which planet is largest?', CONTEXT);
+
+    expect(answer.text).toBe('Jupiter is the largest planet. Saturn has rings.');
+    expect(answer.citations[0]).toMatchObject({ number: 1, start: 0, end: 30, explicit: true });
+  });
+
+  it('ignores markers that number no chunk', async () => {
+    generates('Pluto is cold [7].');
+    const answer = await AnswerService.answer('Which planet is coldest?', CONTEXT);
+
+    expect(answer.text).toBe('Pluto is cold.');
+    expect(answer.citations).toEqual([]);
+  });
+
+  it('cites an unmarked sentence by word overlap and locates the quote in the chunk', async () => {
+    generates('Saturn has the most spectacular rings. Pluto is cold.');
+    const answer = await AnswerService.answer('What about rings?', CONTEXT);
+
+    expect(answer.citations).toHaveLength(1);
+    const [citation] = answer.citations;
+    expect(citation).toMatchObject({ number: 2, chunkId: 12, explicit: false });
+    expect(CONTEXT[1].content.slice(citation.chunkStart, citation.chunkEnd)).toBe('Saturn has the most spectacular rings');
+  });
+
+  it('puts the conversation so far into the prompt', async () => {
+    generates('Jupiter.');
+    await AnswerService.answer('And the largest?', CONTEXT, undefined, {}, {}, [
+      { role: 'user', content: 'Tell me about planets' },
+      { role: 'assistant', content: 'There are eight.' },
+    ]);
+
+    expect(prompts[0]).toContain('Conversation so far:\nUser: Tell me about planets\nAssistant: There are eight.');
+    expect(prompts[0]).toContain('[1] (Planets) Jupiter is the largest planet');
+  });
+});
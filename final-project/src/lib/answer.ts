@@ -1,72 +1,150 @@
-import { pipeline, type Pipeline } from '@huggingface/transformers';
+import { AIWorker, type ProgressCallback, type StreamOptions } from './ai-worker';
+import type { SearchResult } from './search';
+import { PromptTemplateRegistry, parseStructuredAnswer } from './prompts';
+import { ContextPacker, type ContextBudget, type PackedContext } from './context-packer';
+import { ConversationService, type ConversationTurn } from './conversations';
 
-type ProgressCallback = (progress: number) => void;
-
-// Define a singleton class for the answer generation pipeline
-class AnswerPipeline {
-  static task = 'text2text-generation';
-  static model = 'Xenova/flan-t5-small';
-  static instance: Pipeline | null = null;
+/**
+ * Links part of an answer to the retrieved chunk that supports it.
+ */
+export interface Citation {
+  // The chunk's number in the prompt, as written in the answer ("[2]")
+  number: number;
+  chunkId: number;
+  // The claim in the answer text that the chunk supports
+  start: number;
+  end: number;
+  // Where the claim appears in the chunk, when the answer quotes it
+  chunkStart?: number;
+  chunkEnd?: number;
+  // False when the model wrote no marker and the chunk was matched by word overlap
+  explicit: boolean;
+}
 
-  static async getInstance(progress_callback?: ProgressCallback) {
-    if (this.instance === null) {
-       this.instance = await (pipeline as any)(this.task as any, this.model, { progress_callback });
-    }
-    return this.instance;
-  }
+export interface GroundedAnswer {
+  // The answer with citation markers removed; citations point into it
+  text: string;
+  citations: Citation[];
+  // The chunks the answer cites, in order of first citation
+  citedChunkIds: number[];
+  // The model's reasoning, when it separated it from the answer
+  reasoning: string | null;
+  // Which chunks made it into the prompt; citation numbers index `packing.included`
+  packing: Omit<PackedContext, 'context'>;
 }
 
+// Share of a claim's words that must appear in a chunk to cite it without a marker
+const MIN_OVERLAP = 0.6;
+
+const MARKERS = /\s*\[(\d+(?:\s*,\s*\d+)*)\]/g;
+
 export class AnswerService {
   /**
-   * Generates an answer to a query based on the provided context.
+   * Generates an answer to a query based on the retrieved chunks, citing them by number.
    * @param query The user's question.
-   * @param context An array of relevant document chunks.
+   * @param context The relevant chunks in rank order. As many as fit the budget are numbered in the prompt.
    * @param progress_callback An optional callback to track model loading progress.
-   * @returns The synthesized answer.
+   * @param stream Receives the raw output, reasoning included, as it is generated, and can stop generation early.
+   * @param budget The prompt's token limit, see `ContextPacker.pack`.
+   * @param history Earlier turns of the conversation, of which the most recent go into the prompt.
+   * @returns The synthesized answer with its citations.
    */
-  static async answer(query: string, context: string[], progress_callback?: ProgressCallback): Promise<string> {
-    const generator = await AnswerPipeline.getInstance(progress_callback);
+  static async answer(query: string, context: SearchResult[], progress_callback?: ProgressCallback, stream: StreamOptions = {}, budget: ContextBudget = {}, history: ConversationTurn[] = []): Promise<GroundedAnswer> {
+    const formattedHistory = ConversationService.formatHistory(history);
+    const variables = {
+      question: query,
+      history: formattedHistory && `\nConversation so far:\n${formattedHistory}\n`,
+    };
 
-    // Construct the Chain-of-Thought prompt
-    const prompt = `
-      Based on the following context, please reason step-by-step to answer the user's question.
-
-      Context:
-      ---
-      ${context.join('\n---\n')}
-      ---
-
-      Question:
-      ${query}
-
-      Reasoning:
-    `;
+    // Fill in the Chain-of-Thought template with the chunks that fit
+    const { context: passages, ...packing } = await ContextPacker.pack(variables, context, budget, progress_callback);
+    const prompt = PromptTemplateRegistry.render('answer', { ...variables, context: passages });
 
     // Generate the answer
-    const result = await (generator as any)(prompt, {
-      max_new_tokens: 300,
-      temperature: 0.1,
-      do_sample: false,
-    });
-
-    const rawResult = result[0].generated_text;
-    return this.parseFinalAnswer(rawResult);
+    const rawResult = await AIWorker.call('generate', {
+      generator: 'answer',
+      prompt,
+      options: {
+        max_new_tokens: 300,
+        temperature: 0.1,
+        do_sample: false,
+      },
+    }, { ...stream, onProgress: progress_callback });
+
+    const { answer, reasoning } = parseStructuredAnswer(rawResult);
+    return { ...this.resolveCitations(answer, packing.included), reasoning, packing };
   }
 
   /**
-   * Parses the model's output to extract the final answer.
-   * @param rawResult The full output from the model, including reasoning.
-   * @returns The extracted final answer.
+   * Turns the `[n]` markers after each sentence into citations of the chunks
+   * they number. Small models often skip the markers but copy from the
+   * context, so an unmarked sentence cites the chunk it overlaps most with.
    */
-  private static parseFinalAnswer(rawResult: string): string {
-    const finalAnswerMarker = 'Final Answer:';
-    const finalAnswerIndex = rawResult.indexOf(finalAnswerMarker);
+  private static resolveCitations(answer: string, context: SearchResult[]): Pick<GroundedAnswer, 'text' | 'citations' | 'citedChunkIds'> {
+    const citations: Citation[] = [];
+    let text = '';
+
+    for (const sentence of splitSentences(answer)) {
+      const numbers = Array.from(sentence.matchAll(MARKERS))
+        .flatMap(match => match[1].split(',').map(Number))
+        .filter(number => number >= 1 && number <= context.length);
+      const claim = sentence.replace(MARKERS, '').trim();
+      if (!claim) continue;
+
+      if (text) text += ' ';
+      const start = text.length;
+      text += claim;
+      const end = text.length;
 
-    if (finalAnswerIndex !== -1) {
-      return rawResult.substring(finalAnswerIndex + finalAnswerMarker.length).trim();
+      const explicit = numbers.length > 0;
+      const cited = explicit ? Array.from(new Set(numbers)) : bestOverlap(claim, context);
+      for (const number of cited) {
+        const chunk = context[number - 1];
+        const quoted = findQuote(chunk.content, claim);
+        citations.push({ number, chunkId: chunk.id, start, end, ...quoted, explicit });
+      }
     }
-    
-    // Fallback if the model doesn't follow the format perfectly
-    return rawResult.trim();
+
+    return { text, citations, citedChunkIds: Array.from(new Set(citations.map(c => c.chunkId))) };
+  }
+}
+
+// Sentences keep their trailing markers, including ones written after the full stop
+function splitSentences(text: string): string[] {
+  const sentences: string[] = [];
+  for (const match of text.matchAll(/[^.!?\n]+(?:[.!?]+|\n+|$)/g)) {
+    let sentence = match[0];
+    const leading = sentence.match(/^(?:\s*\[\d+(?:\s*,\s*\d+)*\])+/)?.[0] ?? '';
+    if (leading && sentences.length > 0) {
+      sentences[sentences.length - 1] += leading;
+      sentence = sentence.slice(leading.length);
+    }
+    if (sentence.trim()) sentences.push(sentence);
   }
+  return sentences;
+}
+
+function words(text: string): string[] {
+  return text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [];
+}
+
+function bestOverlap(claim: string, context: SearchResult[]): number[] {
+  const claimWords = new Set(words(claim));
+  if (claimWords.size === 0) return [];
+
+  let best = { number: 0, overlap: 0 };
+  context.forEach((result, index) => {
+    const chunkWords = new Set(words(result.content));
+    const shared = Array.from(claimWords).filter(word => chunkWords.has(word)).length;
+    const overlap = shared / claimWords.size;
+    if (overlap > best.overlap) best = { number: index + 1, overlap };
+  });
+  return best.overlap >= MIN_OVERLAP ? [best.number] : [];
+}
+
+// The claim's position in the chunk, ignoring case and its final punctuation
+function findQuote(content: string, claim: string): Pick<Citation, 'chunkStart' | 'chunkEnd'> {
+  const quote = claim.replace(/[.!?]+$/, '').trim().toLowerCase();
+  const index = quote ? content.toLowerCase().indexOf(quote) : -1;
+  return index === -1 ? {} : { chunkStart: index, chunkEnd: index + quote.length };
 }
@@ -0,0 +1,115 @@
+import type { PGlite } from '@electric-sql/pglite';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { fakeAICall } from '../test/ai-worker';
+import { openTestDatabase } from '../test/database';
+import { AIWorker } from './ai-worker';
+import { ArchiveFormatError, KnowledgeArchive } from './archive';
+import { IngestionService } from './ingestion';
+
+vi.mock('./ai-worker', () => ({ AIWorker: { call: vi.fn() } }));
+
+const SATURN = 'Saturn has rings.';
+const MARS = 'Mars is red.';
+
+let databases: PGlite[];
+let archive: string;
+
+beforeEach(async () => {
+  vi.mocked(AIWorker.call).mockReset().mockImplementation(fakeAICall);
+  databases = [await openTestDatabase()];
+  await IngestionService.ingest(SATURN, { planet: 'saturn' }, { key: 'saturn.md', title: 'Saturn' });
+  await IngestionService.ingest(MARS, { planet: 'mars' });
+  archive = await (await KnowledgeArchive.export()).text();
+});
+
+afterEach(async () => {
+  await Promise.all(databases.map(db => db.close()));
+});
+
+const db = () => databases[databases.length - 1];
+
+async function storedSources() {
+  const result = await db().query<{ title: string; key: string | null; content: string }>('SELECT title, key, content FROM sources ORDER BY id');
+  return result.rows;
+}
+
+const embedCalls = () => vi.mocked(AIWorker.call).mock.calls.filter(([method]) => method === 'embed').length;
+
+describe('KnowledgeArchive.import', () => {
+  it('restores an export into an empty knowledge base without embedding again', async () => {
+    const exported = await db().query('SELECT content, embedding::text, metadata FROM chunks ORDER BY id');
+    const calls = embedCalls();
+    databases.push(await openTestDatabase());
+
+    expect(await KnowledgeArchive.import(archive, 'merge')).toEqual({ imported: 2, skipped: 0, overwritten: 0, reembedded: 0 });
+    expect(embedCalls()).toBe(calls);
+    expect(await storedSources()).toEqual([
+      { title: 'Saturn', key: 'saturn.md', content: SATURN },
+      { title: MARS, key: null, content: MARS },
+    ]);
+    expect((await db().query('SELECT content, embedding::text, metadata FROM chunks ORDER BY id')).rows).toEqual(exported.rows);
+  });
+
+  it('keeps stored sources that match by hash or key when skipping', async () => {
+    await IngestionService.reingest('saturn.md', 'Saturn has many rings.');
+
+    expect(await KnowledgeArchive.import(archive, 'skip')).toMatchObject({ imported: 0, skipped: 2, overwritten: 0 });
+    expect((await storedSources()).map(s => s.content)).toEqual(['Saturn has many rings.', MARS]);
+  });
+
+  it('overwrites stored sources that match by hash or key when merging', async () => {
+    await IngestionService.reingest('saturn.md', 'Saturn has many rings.');
+    await IngestionService.ingest('Venus is hot.');
+
+    expect(await KnowledgeArchive.import(archive, 'merge')).toMatchObject({ imported: 2, skipped: 0, overwritten: 2 });
+    expect((await storedSources()).map(s => s.content)).toEqual(['Venus is hot.', SATURN, MARS]);
+  });
+
+  it('empties the knowledge base first when replacing', async () => {
+    await IngestionService.ingest('Venus is hot.');
+
+    expect(await KnowledgeArchive.import(archive, 'replace')).toMatchObject({ imported: 2, overwritten: 0 });
+    expect((await storedSources()).map(s => s.content)).toEqual([SATURN, MARS]);
+  });
+
+  it('embeds chunks from another model again', async () => {
+    databases.push(await openTestDatabase());
+    const otherModel = archive.replaceAll('"embeddingModel":"Xenova/all-MiniLM-L6-v2"', '"embeddingModel":"Xenova/bge-small-en-v1.5"');
+
+    expect(await KnowledgeArchive.import(otherModel, 'merge')).toMatchObject({ imported: 2, reembedded: 2 });
+    expect((await db().query('SELECT DISTINCT embedding_model FROM chunks')).rows).toEqual([{ embedding_model: 'Xenova/all-MiniLM-L6-v2' }]);
+  });
+});
+
+describe('KnowledgeArchive.import of a malformed archive', () => {
+  const lines = (...values: unknown[]) => values.map(value => JSON.stringify(value)).join('\n');
+  // The exported archive with one field of its first chunk changed
+  const withChunk = (change: Record<string, unknown>) => {
+    const [header, source] = archive.trim().split('\n').map(line => JSON.parse(line));
+    return lines(header, { ...source, chunks: [{ ...source.chunks[0], ...change }] });
+  };
+
+  it('rejects files that are not archives, or too new, and stores nothing', async () => {
+    const header = JSON.parse(archive.split('\n')[0]);
+
+    await expect(KnowledgeArchive.import('not json', 'replace')).rejects.toThrow(ArchiveFormatError);
+    await expect(KnowledgeArchive.import(lines({ ...header, format: 'other' }), 'replace')).rejects.toThrow('(line 1): not a knowledge base archive');
+    await expect(KnowledgeArchive.import(lines({ ...header, version: 2 }), 'replace')).rejects.toThrow('unsupported archive version 2');
+    await expect(KnowledgeArchive.import(lines(header, { type: 'source', content: 'x' }), 'replace')).rejects.toThrow('(line 2): expected a source');
+    expect(await storedSources()).toHaveLength(2);
+  });
+
+  it('names the line and chunk that cannot be imported', async () => {
+    await expect(KnowledgeArchive.import(withChunk({ startOffset: '0' }), 'merge'))
+      .rejects.toThrow('Invalid archive (line 2): chunk 1 needs integer start and end offsets');
+    await expect(KnowledgeArchive.import(withChunk({ metadata: [] }), 'merge')).rejects.toThrow('chunk 1 needs metadata that is an object');
+    await expect(KnowledgeArchive.import(withChunk({ embedding: ['0.1'] }), 'merge')).rejects.toThrow('chunk 1 needs an embedding');
+    await expect(KnowledgeArchive.import(withChunk({ content: undefined }), 'merge')).rejects.toThrow('chunk 1 has no content');
+  });
+
+  it('embeds chunks archived without an embedding', async () => {
+    databases.push(await openTestDatabase());
+
+    expect(await KnowledgeArchive.import(withChunk({ embedding: null }), 'merge')).toMatchObject({ imported: 1, reembedded: 1 });
+  });
+});
@@ -0,0 +1,273 @@
+import { VectorDatabase } from './pglite';
+import { EmbeddingService } from './embeddings';
+import { IngestionService, type ChunkRow } from './ingestion';
+import { ModelRegistry } from './models';
+import { sha256 } from './hash';
+
+const ARCHIVE_FORMAT = 'vector-meanings-archive';
+const ARCHIVE_VERSION = 1;
+
+// First line of an archive
+interface ArchiveHeader {
+  type: 'header';
+  format: typeof ARCHIVE_FORMAT;
+  version: number;
+  exportedAt: string;
+  // The model that was active when the archive was made
+  embeddingModel: string;
+  dimension: number;
+  sourceCount: number;
+}
+
+// Every following line: one source with all of its chunks
+interface ArchiveSource {
+  type: 'source';
+  title: string;
+  origin: string;
+  key: string | null;
+  hash: string;
+  content: string;
+  metadata: Record<string, unknown>;
+  createdAt: string;
+  chunks: ChunkRow[];
+}
+
+/**
+ * What to do with archived sources that are already stored, matched by content
+ * hash or key: `merge` overwrites them with the archived version, `skip` keeps
+ * the stored version, and `replace` empties the knowledge base before importing.
+ */
+export type ConflictPolicy = 'merge' | 'replace' | 'skip';
+
+export interface ArchiveImportResult {
+  imported: number;
+  // Archived sources left out because they were already stored
+  skipped: number;
+  // Stored sources overwritten by their archived version
+  overwritten: number;
+  // Chunks embedded again because the archive came from a different model
+  reembedded: number;
+}
+
+export class ArchiveFormatError extends Error {
+  readonly line: number;
+
+  constructor(line: number, message: string) {
+    super(`Invalid archive (line ${line}): ${message}`);
+    this.name = 'ArchiveFormatError';
+    this.line = line;
+  }
+}
+
+interface ExportChunkRow {
+  source_id: number;
+  chunk_index: number;
+  start_offset: number;
+  end_offset: number;
+  content: string;
+  content_hash: string;
+  embedding: string | null;
+  embedding_model: string;
+  metadata: Record<string, unknown>;
+}
+
+export class KnowledgeArchive {
+  /**
+   * Serializes every source and chunk, embeddings included, as JSON Lines:
+   * a header line followed by one line per source.
+   */
+  static async export(): Promise<Blob> {
+    return VectorDatabase.withDatabase(async (db) => {
+      const model = await ModelRegistry.getActiveModel();
+      const sources = await db.query<{ id: number; title: string; origin: string; key: string | null; hash: string; content: string; metadata: Record<string, unknown>; created_at: Date }>(
+        'SELECT id, title, origin, key, hash, content, metadata, created_at FROM sources ORDER BY id'
+      );
+      const chunks = await db.query<ExportChunkRow>(
+        `SELECT source_id, chunk_index, start_offset, end_offset, content, content_hash, embedding::text AS embedding, embedding_model, metadata
+         FROM chunks ORDER BY source_id, chunk_index`
+      );
+
+      const chunksBySource = new Map<number, ChunkRow[]>();
+      for (const row of chunks.rows) {
+        const rows = chunksBySource.get(row.source_id) ?? [];
+        rows.push({
+          chunkIndex: row.chunk_index,
+          startOffset: row.start_offset,
+          endOffset: row.end_offset,
+          content: row.content,
+          contentHash: row.content_hash,
+          embedding: row.embedding ? JSON.parse(row.embedding) : null,
+          embeddingModel: row.embedding_model,
+          metadata: row.metadata,
+        });
+        chunksBySource.set(row.source_id, rows);
+      }
+
+      const header: ArchiveHeader = {
+        type: 'header',
+        format: ARCHIVE_FORMAT,
+        version: ARCHIVE_VERSION,
+        exportedAt: new Date().toISOString(),
+        embeddingModel: model.id,
+        dimension: model.dimension,
+        sourceCount: sources.rows.length,
+      };
+      const lines = [JSON.stringify(header)];
+      for (const source of sources.rows) {
+        const line: ArchiveSource = {
+          type: 'source',
+          title: source.title,
+          origin: source.origin,
+          key: source.key,
+          hash: source.hash,
+          content: source.content,
+          metadata: source.metadata,
+          createdAt: new Date(source.created_at).toISOString(),
+          chunks: chunksBySource.get(source.id) ?? [],
+        };
+        lines.push(JSON.stringify(line));
+      }
+
+      return new Blob(lines.map(line => `${line}\n`), { type: 'application/x-ndjson' });
+    });
+  }
+
+  /**
+   * Restores sources from an archive made by `export`, in one transaction.
+   * Embeddings are reused when they come from the active model; chunks embedded
+   * with another model are embedded again so the corpus stays comparable.
+   * @throws ArchiveFormatError if the text is not a readable archive.
+   */
+  static async import(text: string, policy: ConflictPolicy): Promise<ArchiveImportResult> {
+    return VectorDatabase.withDatabase(async (db) => {
+      const model = await ModelRegistry.getActiveModel();
+      const archived = this.parse(text);
+      const result: ArchiveImportResult = { imported: 0, skipped: 0, overwritten: 0, reembedded: 0 };
+
+      // Hashes are recomputed rather than trusted, since they decide what counts as a conflict
+      for (const source of archived) {
+        source.hash = await sha256(source.content);
+        for (const chunk of source.chunks) chunk.contentHash = await sha256(chunk.content);
+      }
+
+      const stored = policy === 'replace'
+        ? { rows: [] }
+        : await db.query<{ hash: string; key: string | null }>('SELECT hash, key FROM sources');
+      const storedHashes = new Set(stored.rows.map(row => row.hash));
+      const storedKeys = new Set(stored.rows.flatMap(row => (row.key ? [row.key] : [])));
+
+      // Within the archive, and for `skip` against the database, the first copy wins
+      const seenHashes = new Set<string>();
+      const seenKeys = new Set<string>();
+      const sources = archived.filter(source => {
+        const duplicate = seenHashes.has(source.hash) || (source.key !== null && seenKeys.has(source.key));
+        const conflict = storedHashes.has(source.hash) || (source.key !== null && storedKeys.has(source.key));
+        if (duplicate || (conflict && policy === 'skip')) {
+          result.skipped++;
+          return false;
+        }
+        if (conflict) result.overwritten++;
+        seenHashes.add(source.hash);
+        if (source.key !== null) seenKeys.add(source.key);
+        return true;
+      });
+
+      // Embed before opening the transaction so it is only held for the writes
+      const stale = sources.flatMap(source => source.chunks).filter(chunk =>
+        chunk.embeddingModel !== model.id || chunk.embedding?.length !== model.dimension
+      );
+      const embeddings = await EmbeddingService.generateBatch(stale.map(chunk => chunk.content), 16, model);
+      stale.forEach((chunk, index) => {
+        chunk.embedding = embeddings[index];
+        chunk.embeddingModel = model.id;
+      });
+      result.reembedded = stale.length;
+
+      await db.transaction(async (tx) => {
+        if (policy === 'replace') {
+          await tx.exec('DELETE FROM sources');
+        } else if (policy === 'merge') {
+          await tx.query(
+            'DELETE FROM sources WHERE hash = ANY($1) OR key = ANY($2)',
+            [Array.from(seenHashes), Array.from(seenKeys)]
+          );
+        }
+
+        for (const source of sources) {
+          const inserted = await tx.query<{ id: number }>(
+            `INSERT INTO sources (title, origin, key, hash, content, metadata, created_at)
+             VALUES ($1, $2, $3, $4, $5, $6, $7) RETURNING id`,
+            [source.title, source.origin, source.key, source.hash, source.content, JSON.stringify(source.metadata), source.createdAt]
+          );
+          await IngestionService.upsertChunks(tx, inserted.rows[0].id, source.chunks);
+          result.imported++;
+        }
+      });
+
+      return result;
+    });
+  }
+
+  private static parse(text: string): ArchiveSource[] {
+    const lines = text.split(/\r?\n/);
+    const read = (index: number): Record<string, unknown> => {
+      try {
+        const value: unknown = JSON.parse(lines[index]);
+        if (typeof value !== 'object' || value === null || Array.isArray(value)) throw new Error('not an object');
+        return value as Record<string, unknown>;
+      } catch (error) {
+        throw new ArchiveFormatError(index + 1, error instanceof Error ? error.message : String(error));
+      }
+    };
+
+    const header = read(0) as Partial<ArchiveHeader>;
+    if (header.type !== 'header' || header.format !== ARCHIVE_FORMAT) {
+      throw new ArchiveFormatError(1, 'not a knowledge base archive');
+    }
+    if (typeof header.version !== 'number' || header.version > ARCHIVE_VERSION) {
+      throw new ArchiveFormatError(1, `unsupported archive version ${header.version}`);
+    }
+
+    const sources: ArchiveSource[] = [];
+    for (let index = 1; index < lines.length; index++) {
+      if (lines[index].trim() === '') continue;
+      const source = read(index) as Partial<ArchiveSource>;
+      if (source.type !== 'source' || typeof source.content !== 'string' || !Array.isArray(source.chunks)) {
+        throw new ArchiveFormatError(index + 1, 'expected a source with content and chunks');
+      }
+      for (const [position, chunk] of source.chunks.entries()) {
+        const problem = chunkProblem(chunk);
+        if (problem) throw new ArchiveFormatError(index + 1, `chunk ${position + 1} ${problem}`);
+      }
+      sources.push({
+        type: 'source',
+        title: source.title ?? 'Untitled',
+        origin: source.origin ?? 'import',
+        key: source.key ?? null,
+        hash: source.hash ?? '',
+        content: source.content,
+        metadata: source.metadata ?? {},
+        createdAt: source.createdAt ?? new Date().toISOString(),
+        chunks: source.chunks,
+      });
+    }
+    return sources;
+  }
+}
+
+// What is wrong with an archived chunk, or null if it can be imported
+function chunkProblem(chunk: unknown): string | null {
+  if (!isPlainObject(chunk)) return 'is not an object';
+  if (typeof chunk.content !== 'string') return 'has no content';
+  if (!Number.isInteger(chunk.chunkIndex)) return 'needs an integer chunk index';
+  if (!Number.isInteger(chunk.startOffset) || !Number.isInteger(chunk.endOffset)) return 'needs integer start and end offsets';
+  if (!isPlainObject(chunk.metadata)) return 'needs metadata that is an object';
+  if (chunk.embedding !== null && !(Array.isArray(chunk.embedding) && chunk.embedding.every(value => typeof value === 'number'))) {
+    return 'needs an embedding that is an array of numbers or null';
+  }
+  return null;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
@@ -0,0 +1,114 @@
+import { describe, expect, it, vi } from 'vitest';
+import { AIWorker } from './ai-worker';
+import {
+  FixedSizeChunker,
+  MarkdownChunker,
+  RecursiveChunker,
+  SentenceChunker,
+  TokenChunker,
+  createChunkingStrategy,
+  type TextChunk,
+} from './chunking';
+
+vi.mock('./ai-worker', () => ({ AIWorker: { call: vi.fn() } }));
+
+// Every chunk's offsets must point at its content in the original text
+function expectAligned(text: string, chunks: TextChunk[]) {
+  for (const chunk of chunks) {
+    expect(text.slice(chunk.start, chunk.end)).toBe(chunk.content);
+  }
+}
+
+describe('FixedSizeChunker', () => {
+  it('slides a window with overlap', async () => {
+    const text = 'abcdefghij'.repeat(3);
+    const chunks = await new FixedSizeChunker({ size: 10, overlap: 4 }).chunk(text);
+
+    expect(chunks.map(c => [c.start, c.end])).toEqual([[0, 10], [6, 16], [12, 22], [18, 28], [24, 30]]);
+    expectAligned(text, chunks);
+  });
+
+  it('trims whitespace without losing the offsets', async () => {
+    const text = '  hello   world  ';
+    const chunks = await new FixedSizeChunker({ size: 9, overlap: 0 }).chunk(text);
+
+    expect(chunks.map(c => c.content)).toEqual(['hello', 'world']);
+    expectAligned(text, chunks);
+  });
+
+  it('keeps the overlap below the size so the window always moves', async () => {
+    const chunker = new FixedSizeChunker({ size: 5, overlap: 10 });
+
+    expect(chunker.params).toEqual({ size: 5, overlap: 4 });
+    expect(await chunker.chunk('abcdefgh')).toHaveLength(8);
+  });
+});
+
+describe('RecursiveChunker', () => {
+  it('splits on paragraphs before lines and words', async () => {
+    const text = 'First paragraph here.\n\nSecond paragraph is a little longer.\n\nThird.';
+    const chunks = await new RecursiveChunker({ maxSize: 40 }).chunk(text);
+
+    expect(chunks.map(c => c.content)).toEqual([
+      'First paragraph here.',
+      'Second paragraph is a little longer.',
+      'Third.',
+    ]);
+    expectAligned(text, chunks);
+  });
+
+  it('cuts text without separators at the size limit', async () => {
+    const text = 'x'.repeat(25);
+    const chunks = await new RecursiveChunker({ maxSize: 10 }).chunk(text);
+
+    expect(chunks.map(c => c.content.length)).toEqual([10, 10, 5]);
+  });
+});
+
+describe('SentenceChunker', () => {
+  it('groups whole sentences and repeats the last one in the next chunk', async () => {
+    const text = 'One is here. Two is here. Three is here. Four is here.';
+    const chunks = await new SentenceChunker({ maxSize: 30, overlapSentences: 1 }).chunk(text);
+
+    expect(chunks.map(c => c.content)).toEqual([
+      'One is here. Two is here.',
+      'Two is here. Three is here.',
+      'Three is here. Four is here.',
+    ]);
+    expectAligned(text, chunks);
+  });
+});
+
+describe('MarkdownChunker', () => {
+  it('starts a chunk at every heading up to the configured level', async () => {
+    const text = '# Title\n\nIntro.\n\n## Part\n\nBody.\n\n#### Deep\n\nStays in Part.';
+    const chunks = await new MarkdownChunker({ maxHeadingLevel: 2 }).chunk(text);
+
+    expect(chunks.map(c => c.content)).toEqual([
+      '# Title\n\nIntro.',
+      '## Part\n\nBody.\n\n#### Deep\n\nStays in Part.',
+    ]);
+    expectAligned(text, chunks);
+  });
+});
+
+describe('TokenChunker', () => {
+  it('packs words up to the token budget with a token overlap', async () => {
+    // One token per character makes the budget easy to follow
+    vi.mocked(AIWorker.call).mockImplementation(async (_method, args) =>
+      (args as { texts: string[] }).texts.map(text => text.length) as never
+    );
+    const text = 'aa bb cc dd ee';
+    const chunks = await new TokenChunker({ maxTokens: 6, overlapTokens: 2 }).chunk(text);
+
+    expect(chunks.map(c => c.content)).toEqual(['aa bb cc', 'cc dd ee']);
+    expectAligned(text, chunks);
+  });
+});
+
+describe('createChunkingStrategy', () => {
+  it('passes the options that apply to the strategy', () => {
+    expect(createChunkingStrategy('fixed', { size: 100, overlap: 10, maxSize: 5 }).params).toEqual({ size: 100, overlap: 10 });
+    expect(createChunkingStrategy('markdown').params).toEqual({ maxSize: 800, maxHeadingLevel: 3 });
+  });
+});
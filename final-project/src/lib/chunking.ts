@@ -0,0 +1,324 @@
+import { AIWorker } from './ai-worker';
+
+export type ChunkingStrategyName = 'fixed' | 'recursive' | 'sentence' | 'markdown' | 'token';
+
+export type ChunkingParams = Record<string, number | string | string[]>;
+
+export interface ChunkingOptions {
+  size?: number;
+  overlap?: number;
+  maxSize?: number;
+  separators?: string[];
+  overlapSentences?: number;
+  maxHeadingLevel?: number;
+  maxTokens?: number;
+  overlapTokens?: number;
+  model?: string;
+}
+
+export interface TextChunk {
+  content: string;
+  // Character offsets of the chunk within the original text
+  start: number;
+  end: number;
+}
+
+export interface ChunkingStrategy {
+  readonly name: ChunkingStrategyName;
+  readonly params: ChunkingParams;
+  chunk(text: string): Promise<TextChunk[]>;
+}
+
+interface Span {
+  start: number;
+  end: number;
+}
+
+/**
+ * Turns a span into a chunk, trimming surrounding whitespace while keeping
+ * the offsets aligned with the original text. Returns null for blank spans.
+ */
+function toChunk(text: string, { start, end }: Span): TextChunk | null {
+  while (start < end && /\s/.test(text[start])) start++;
+  while (end > start && /\s/.test(text[end - 1])) end--;
+  if (start === end) return null;
+  return { content: text.slice(start, end), start, end };
+}
+
+function toChunks(text: string, spans: Span[]): TextChunk[] {
+  return spans.map(span => toChunk(text, span)).filter((c): c is TextChunk => c !== null);
+}
+
+/**
+ * Greedily merges adjacent spans as long as the merged span stays within maxSize.
+ * `overlap` is the number of trailing spans carried over into the next group.
+ */
+function mergeSpans(spans: Span[], maxSize: number, overlap = 0): Span[] {
+  const merged: Span[] = [];
+  let i = 0;
+
+  while (i < spans.length) {
+    let j = i + 1;
+    while (j < spans.length && spans[j].end - spans[i].start <= maxSize) j++;
+    merged.push({ start: spans[i].start, end: spans[j - 1].end });
+    if (j >= spans.length) break;
+
+    // Only carry spans over if the next group can still take at least one new span
+    let next = Math.max(i + 1, j - overlap);
+    while (next < j && spans[j].end - spans[next].start > maxSize) next++;
+    i = next;
+  }
+
+  return merged;
+}
+
+/**
+ * Recursively splits a span on the first separator it contains, falling back to
+ * finer separators for any piece that is still larger than maxSize.
+ */
+function splitRecursive(text: string, span: Span, maxSize: number, separators: string[]): Span[] {
+  if (span.end - span.start <= maxSize) return [span];
+
+  const segment = text.slice(span.start, span.end);
+  const index = separators.findIndex(s => s === '' || segment.includes(s));
+  const separator = separators[index] ?? '';
+  const rest = separators.slice(index + 1);
+
+  if (separator === '') {
+    const pieces: Span[] = [];
+    for (let start = span.start; start < span.end; start += maxSize) {
+      pieces.push({ start, end: Math.min(start + maxSize, span.end) });
+    }
+    return pieces;
+  }
+
+  const parts: Span[] = [];
+  let cursor = span.start;
+  for (const part of segment.split(separator)) {
+    // Keep the separator attached to the preceding part so no text is lost
+    const end = Math.min(cursor + part.length + separator.length, span.end);
+    parts.push(...splitRecursive(text, { start: cursor, end }, maxSize, rest));
+    cursor = end;
+  }
+
+  return mergeSpans(parts, maxSize);
+}
+
+export class FixedSizeChunker implements ChunkingStrategy {
+  readonly name = 'fixed';
+  private size: number;
+  private overlap: number;
+
+  constructor({ size = 250, overlap = 40 }: { size?: number; overlap?: number } = {}) {
+    this.size = size;
+    this.overlap = Math.min(overlap, size - 1);
+  }
+
+  get params(): ChunkingParams {
+    return { size: this.size, overlap: this.overlap };
+  }
+
+  async chunk(text: string): Promise<TextChunk[]> {
+    const spans: Span[] = [];
+    let start = 0;
+
+    while (start < text.length) {
+      const end = Math.min(start + this.size, text.length);
+      spans.push({ start, end });
+      start += this.size - this.overlap;
+    }
+
+    return toChunks(text, spans);
+  }
+}
+
+export class RecursiveChunker implements ChunkingStrategy {
+  readonly name = 'recursive';
+  private maxSize: number;
+  private separators: string[];
+
+  constructor({ maxSize = 500, separators = ['\n\n', '\n', '. ', ' ', ''] }: { maxSize?: number; separators?: string[] } = {}) {
+    this.maxSize = maxSize;
+    this.separators = separators;
+  }
+
+  get params(): ChunkingParams {
+    return { maxSize: this.maxSize, separators: this.separators };
+  }
+
+  async chunk(text: string): Promise<TextChunk[]> {
+    return toChunks(text, splitRecursive(text, { start: 0, end: text.length }, this.maxSize, this.separators));
+  }
+}
+
+export class SentenceChunker implements ChunkingStrategy {
+  readonly name = 'sentence';
+  private maxSize: number;
+  private overlapSentences: number;
+
+  constructor({ maxSize = 500, overlapSentences = 1 }: { maxSize?: number; overlapSentences?: number } = {}) {
+    this.maxSize = maxSize;
+    this.overlapSentences = overlapSentences;
+  }
+
+  get params(): ChunkingParams {
+    return { maxSize: this.maxSize, overlapSentences: this.overlapSentences };
+  }
+
+  async chunk(text: string): Promise<TextChunk[]> {
+    const sentences: Span[] = [];
+    const pattern = /[^.!?\n]+(?:[.!?]+["')\]]*|\n+|$)\s*/g;
+
+    for (const match of text.matchAll(pattern)) {
+      const span = { start: match.index, end: match.index + match[0].length };
+      // Sentences that are longer than a whole chunk still have to be cut somewhere
+      sentences.push(...splitRecursive(text, span, this.maxSize, [', ', ' ', '']));
+    }
+
+    return toChunks(text, mergeSpans(sentences, this.maxSize, this.overlapSentences));
+  }
+}
+
+export class MarkdownChunker implements ChunkingStrategy {
+  readonly name = 'markdown';
+  private maxSize: number;
+  private maxHeadingLevel: number;
+
+  constructor({ maxSize = 800, maxHeadingLevel = 3 }: { maxSize?: number; maxHeadingLevel?: number } = {}) {
+    this.maxSize = maxSize;
+    this.maxHeadingLevel = maxHeadingLevel;
+  }
+
+  get params(): ChunkingParams {
+    return { maxSize: this.maxSize, maxHeadingLevel: this.maxHeadingLevel };
+  }
+
+  async chunk(text: string): Promise<TextChunk[]> {
+    const heading = new RegExp(`^#{1,${this.maxHeadingLevel}}\\s`, 'gm');
+    const boundaries = [0, ...Array.from(text.matchAll(heading), m => m.index).filter(i => i > 0), text.length];
+
+    // Every section starts at a heading; oversized sections fall back to paragraph splitting
+    const spans: Span[] = [];
+    for (let i = 0; i < boundaries.length - 1; i++) {
+      const section = { start: boundaries[i], end: boundaries[i + 1] };
+      spans.push(...splitRecursive(text, section, this.maxSize, ['\n\n', '\n', ' ', '']));
+    }
+
+    return toChunks(text, spans);
+  }
+}
+
+export class TokenChunker implements ChunkingStrategy {
+  readonly name = 'token';
+  private maxTokens: number;
+  private overlapTokens: number;
+  private model: string;
+
+  constructor({ maxTokens = 128, overlapTokens = 16, model = 'Xenova/all-MiniLM-L6-v2' }: { maxTokens?: number; overlapTokens?: number; model?: string } = {}) {
+    this.maxTokens = maxTokens;
+    this.overlapTokens = Math.min(overlapTokens, maxTokens - 1);
+    this.model = model;
+  }
+
+  get params(): ChunkingParams {
+    return { maxTokens: this.maxTokens, overlapTokens: this.overlapTokens, model: this.model };
+  }
+
+  async chunk(text: string): Promise<TextChunk[]> {
+    const words = Array.from(text.matchAll(/\S+/g), m => ({ start: m.index, end: m.index + m[0].length }));
+    const counts = await AIWorker.call('countTokens', {
+      model: this.model,
+      texts: words.map(w => text.slice(w.start, w.end)),
+    });
+
+    const spans: Span[] = [];
+    let i = 0;
+
+    while (i < words.length) {
+      let j = i;
+      let tokens = 0;
+      // Always take at least one word, even if it alone exceeds the budget
+      while (j < words.length && (j === i || tokens + counts[j] <= this.maxTokens)) {
+        tokens += counts[j++];
+      }
+      spans.push({ start: words[i].start, end: words[j - 1].end });
+      if (j >= words.length) break;
+
+      // Step back over trailing words until the overlap budget is used up
+      let k = j;
+      let overlap = 0;
+      while (k - 1 > i && overlap + counts[k - 1] <= this.overlapTokens) {
+        overlap += counts[--k];
+      }
+      i = k;
+    }
+
+    return toChunks(text, spans);
+  }
+}
+
+export interface ChunkingStrategyInfo {
+  name: ChunkingStrategyName;
+  label: string;
+  description: string;
+  // The parameter that controls chunk size, exposed in the Sandbox
+  sizeParam: string;
+  defaultSize: number;
+}
+
+export const CHUNKING_STRATEGIES: ChunkingStrategyInfo[] = [
+  {
+    name: 'fixed',
+    label: 'Fixed Size',
+    description: 'Sliding character window with overlap.',
+    sizeParam: 'size',
+    defaultSize: 250
+  },
+  {
+    name: 'recursive',
+    label: 'Recursive',
+    description: 'Splits on paragraphs, lines, then words.',
+    sizeParam: 'maxSize',
+    defaultSize: 500
+  },
+  {
+    name: 'sentence',
+    label: 'Sentence',
+    description: 'Groups whole sentences with one sentence of overlap.',
+    sizeParam: 'maxSize',
+    defaultSize: 500
+  },
+  {
+    name: 'markdown',
+    label: 'Markdown',
+    description: 'Keeps sections under the same heading together.',
+    sizeParam: 'maxSize',
+    defaultSize: 800
+  },
+  {
+    name: 'token',
+    label: 'Token Count',
+    description: 'Packs words up to a token budget of the embedding model.',
+    sizeParam: 'maxTokens',
+    defaultSize: 128
+  }
+];
+
+/**
+ * Creates a chunking strategy by name. Options that do not apply to the chosen
+ * strategy are ignored and missing ones fall back to the strategy's defaults.
+ */
+export function createChunkingStrategy(name: ChunkingStrategyName, options: ChunkingOptions = {}): ChunkingStrategy {
+  switch (name) {
+    case 'fixed':
+      return new FixedSizeChunker(options);
+    case 'recursive':
+      return new RecursiveChunker(options);
+    case 'sentence':
+      return new SentenceChunker(options);
+    case 'markdown':
+      return new MarkdownChunker(options);
+    case 'token':
+      return new TokenChunker(options);
+  }
+}
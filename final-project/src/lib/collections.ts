@@ -0,0 +1,122 @@
+export interface Collection {
+  id: string;
+  name: string;
+  createdAt: string;
+}
+
+export interface CollectionState {
+  collections: Collection[];
+  activeId: string;
+}
+
+const STORAGE_KEY = 'vector-meanings-collections';
+
+// Stands for the database that existed before there were collections, so it keeps its storage
+const DEFAULT_COLLECTION: Collection = { id: 'default', name: 'Default', createdAt: new Date(0).toISOString() };
+
+/**
+ * The registry of named knowledge bases, kept in localStorage. Each collection
+ * is a separate PGlite database with its own IndexedDB storage, so its sources,
+ * chunks and embedding model are independent of every other collection.
+ * `VectorDatabase` opens the active one.
+ */
+export class CollectionService {
+  private static state: CollectionState = load();
+  private static listeners = new Set<() => void>();
+
+  /**
+   * Subscribes to changes of the registry or the active collection.
+   * @returns A function that removes the listener.
+   */
+  static subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  // A new object after every change, as `useSyncExternalStore` expects
+  static getState(): CollectionState {
+    return this.state;
+  }
+
+  static list(): Collection[] {
+    return this.state.collections;
+  }
+
+  static getActive(): Collection {
+    return this.get(this.state.activeId);
+  }
+
+  static get(id: string): Collection {
+    const collection = this.state.collections.find(c => c.id === id);
+    if (!collection) throw new Error(`Unknown collection: ${id}`);
+    return collection;
+  }
+
+  /**
+   * Adds a collection. Its database is created the first time it is opened.
+   */
+  static create(name: string): Collection {
+    const collection = { id: crypto.randomUUID(), name: this.validName(name), createdAt: new Date().toISOString() };
+    this.update({ ...this.state, collections: [...this.state.collections, collection] });
+    return collection;
+  }
+
+  static rename(id: string, name: string): void {
+    const valid = this.validName(name, id);
+    this.update({
+      ...this.state,
+      collections: this.state.collections.map(c => (c.id === id ? { ...c, name: valid } : c)),
+    });
+  }
+
+  /**
+   * Removes a collection from the registry; `VectorDatabase.deleteCollection`
+   * also deletes its storage.
+   */
+  static remove(id: string): void {
+    if (id === this.state.activeId) throw new Error('The active collection cannot be deleted');
+    this.update({ ...this.state, collections: this.state.collections.filter(c => c.id !== id) });
+  }
+
+  /**
+   * Marks a collection as active. Use `VectorDatabase.switchCollection` to
+   * also close the open database.
+   */
+  static setActive(id: string): void {
+    this.get(id);
+    this.update({ ...this.state, activeId: id });
+  }
+
+  // PGlite stores an `idb://name` data dir in the IndexedDB database `/pglite/name`
+  static dataDir(id: string): string {
+    return id === DEFAULT_COLLECTION.id ? 'idb://vector-meanings-db' : `idb://vector-meanings-db-${id}`;
+  }
+
+  private static validName(name: string, id?: string): string {
+    const trimmed = name.trim();
+    if (!trimmed) throw new Error('Collection name cannot be empty');
+    if (this.state.collections.some(c => c.id !== id && c.name.toLowerCase() === trimmed.toLowerCase())) {
+      throw new Error(`A collection named "${trimmed}" already exists`);
+    }
+    return trimmed;
+  }
+
+  private static update(state: CollectionState): void {
+    this.state = state;
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(state));
+    this.listeners.forEach(listener => listener());
+  }
+}
+
+function load(): CollectionState {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    if (saved) {
+      const state = JSON.parse(saved) as CollectionState;
+      if (state.collections.some(c => c.id === state.activeId)) return state;
+    }
+  } catch (error) {
+    console.error('Failed to load collections', error);
+  }
+  return { collections: [DEFAULT_COLLECTION], activeId: DEFAULT_COLLECTION.id };
+}
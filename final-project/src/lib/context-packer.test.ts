@@ -0,0 +1,62 @@
+import { describe, expect, it, vi } from 'vitest';
+import { AIWorker } from './ai-worker';
+import { ContextPacker } from './context-packer';
+import type { SearchResult } from './search';
+
+vi.mock('./ai-worker', () => ({ AIWorker: { call: vi.fn() } }));
+
+function result(id: number, content: string): SearchResult {
+  return {
+    id,
+    content,
+    metadata: {},
+    similarity: 0.5,
+    sourceId: 1,
+    sourceTitle: 'Doc',
+    chunkIndex: id,
+    vectorScore: 0.5,
+    lexicalScore: 0,
+    fusedScore: 0.5,
+  };
+}
+
+describe('ContextPacker.pack', () => {
+  it('reserves the frame, then takes chunks in rank order while they fit', async () => {
+    // Each "#" is a token, plus one for everything else; the separator costs 2
+    const counted: string[] = [];
+    vi.mocked(AIWorker.call).mockImplementation(async (_method, args) => {
+      const { texts } = args as { texts: string[] };
+      counted.push(...texts);
+      return texts.map(text => (text === '\n---\n' ? 2 : (text.match(/#/g) ?? []).length + 1)) as never;
+    });
+
+    const results = [result(1, '#'.repeat(50)), result(2, '#'.repeat(60)), result(3, '#'.repeat(5))];
+    const packed = await ContextPacker.pack({ question: 'Why?', history: '' }, results, { maxTokens: 100 });
+
+    // The frame takes 1 token and the end-of-sequence token 1 more
+    expect(packed.reservedTokens).toBe(2);
+    // 2 + 51 for the first chunk; the second would need 61 + 2 more; the third fits with 6 + 2
+    expect(packed.included.map(r => r.id)).toEqual([1, 3]);
+    expect(packed.dropped).toEqual([{ result: results[1], tokens: 61 }]);
+    expect(packed.usedTokens).toBe(61);
+    expect(packed.maxTokens).toBe(100);
+    expect(packed.context).toBe(`[1] (Doc) ${'#'.repeat(50)}\n---\n[2] (Doc) #####`);
+
+    // The frame is the template without passages, and passages are counted with the widest number
+    expect(counted[0]).toContain('Why?');
+    expect(counted.slice(2).every(text => text.startsWith('[3] (Doc) '))).toBe(true);
+  });
+
+  it('drops everything when the frame alone fills the budget', async () => {
+    vi.mocked(AIWorker.call).mockImplementation(async (_method, args) =>
+      (args as { texts: string[] }).texts.map(() => 10) as never
+    );
+
+    const packed = await ContextPacker.pack({ question: 'Why?' }, [result(1, 'a'), result(2, 'b')], { maxTokens: 11 });
+
+    expect(packed.included).toEqual([]);
+    expect(packed.dropped.map(d => d.result.id)).toEqual([1, 2]);
+    expect(packed.context).toBe('');
+    expect(packed.usedTokens).toBe(11);
+  });
+});
@@ -0,0 +1,85 @@
+import { AIWorker, type ProgressCallback } from './ai-worker';
+import { PromptTemplateRegistry } from './prompts';
+import type { SearchResult } from './search';
+
+export interface ContextBudget {
+  // Input tokens the answer model reads; flan-t5-small's tokenizer truncates beyond 512
+  maxTokens?: number;
+  // Tokenizer used for counting, which should be the answer model's
+  model?: string;
+}
+
+export interface DroppedChunk {
+  result: SearchResult;
+  // Tokens the passage would have taken
+  tokens: number;
+}
+
+export interface PackedContext {
+  // The numbered passages, ready for the template's {{context}} variable
+  context: string;
+  // The chunks in the prompt, numbered in this order
+  included: SearchResult[];
+  // Chunks left out because they did not fit, in rank order
+  dropped: DroppedChunk[];
+  maxTokens: number;
+  // Tokens taken by the template, question and history before any passage is added
+  reservedTokens: number;
+  // Tokens of the whole prompt
+  usedTokens: number;
+}
+
+const DEFAULT_MAX_TOKENS = 512;
+const DEFAULT_MODEL = 'Xenova/flan-t5-small';
+const SEPARATOR = '\n---\n';
+
+export class ContextPacker {
+  /**
+   * Fits the highest-ranked chunks into the answer prompt without exceeding
+   * the token budget. Room for the instructions, question and conversation
+   * history is reserved first; chunks are then taken in rank order, and one
+   * that does not fit is dropped while lower-ranked ones may still fill the
+   * remaining space.
+   * Counts are summed per piece, so they can be off by a token at the seams.
+   * @param variables The answer template's variables other than {{context}}.
+   * @param results Chunks in rank order, best first.
+   */
+  static async pack(variables: Record<string, string>, results: SearchResult[], budget: ContextBudget = {}, onProgress?: ProgressCallback): Promise<PackedContext> {
+    const { maxTokens = DEFAULT_MAX_TOKENS, model = DEFAULT_MODEL } = budget;
+    const candidates = results.map(result => ({ result, text: `(${result.sourceTitle}) ${result.content}` }));
+    const [frame, separator, ...passageTokens] = await AIWorker.call('countTokens', {
+      model,
+      texts: [
+        PromptTemplateRegistry.render('answer', { ...variables, context: '' }),
+        SEPARATOR,
+        // Passage numbers are only known after packing, so count the widest one
+        ...candidates.map(candidate => `[${results.length}] ${candidate.text}`),
+      ],
+    }, { onProgress });
+
+    // The end-of-sequence token is added after the prompt
+    const reservedTokens = frame + 1;
+    const included: typeof candidates = [];
+    const dropped: DroppedChunk[] = [];
+    let usedTokens = reservedTokens;
+
+    candidates.forEach((candidate, index) => {
+      const cost = passageTokens[index] + (included.length > 0 ? separator : 0);
+      if (usedTokens + cost <= maxTokens) {
+        included.push(candidate);
+        usedTokens += cost;
+      } else {
+        dropped.push({ result: candidate.result, tokens: passageTokens[index] });
+      }
+    });
+
+    return {
+      context: included.map((candidate, index) => `[${index + 1}] ${candidate.text}`).join(SEPARATOR),
+      included: included.map(candidate => candidate.result),
+      dropped,
+      maxTokens,
+      reservedTokens,
+      usedTokens,
+    };
+  }
+}
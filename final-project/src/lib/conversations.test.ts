@@ -0,0 +1,94 @@
+import type { PGlite } from '@electric-sql/pglite';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { openTestDatabase } from '../test/database';
+import { AIWorker } from './ai-worker';
+import { ConversationService, type NewMessage } from './conversations';
+
+vi.mock('./ai-worker', () => ({ AIWorker: { call: vi.fn() } }));
+
+const turns = [
+  { role: 'user' as const, content: 'What is   a vector?' },
+  { role: 'assistant' as const, content: 'A list\nof numbers.' },
+  { role: 'user' as const, content: 'And a database?' },
+];
+
+describe('ConversationService.formatHistory', () => {
+  it('writes one line per turn with the whitespace collapsed', () => {
+    expect(ConversationService.formatHistory(turns)).toBe(
+      'User: What is a vector?\nAssistant: A list of numbers.\nUser: And a database?'
+    );
+  });
+
+  it('keeps only the most recent turns that fit', () => {
+    expect(ConversationService.formatHistory(turns, { maxMessages: 2 })).toBe('Assistant: A list of numbers.\nUser: And a database?');
+    expect(ConversationService.formatHistory(turns, { maxChars: 50 })).toBe('Assistant: A list of numbers.\nUser: And a database?');
+  });
+
+  it('cuts a single turn that is longer than the limit', () => {
+    expect(ConversationService.formatHistory([turns[0]], { maxChars: 10 })).toBe('User: Wha…');
+    expect(ConversationService.formatHistory([])).toBe('');
+  });
+});
+
+describe('ConversationService storage', () => {
+  let db: PGlite;
+
+  afterEach(async () => {
+    await db.close();
+  });
+
+  const turn: NewMessage[] = [
+    { role: 'user', content: 'What is a vector?', metadata: { query: 'What is a vector?' } },
+    { role: 'assistant', content: 'A list of numbers.', metadata: {} },
+  ];
+
+  it('stores a new conversation with its first turn, and appends later ones', async () => {
+    db = await openTestDatabase();
+    const id = await ConversationService.create('  What is\na vector?  ', turn);
+    await ConversationService.append(id, [{ role: 'user', content: 'And a database?', metadata: {} }]);
+
+    expect(await ConversationService.list()).toMatchObject([{ id, title: 'What is a vector?', messageCount: 3 }]);
+    expect((await ConversationService.messages(id)).map(m => [m.role, m.content, m.metadata])).toEqual([
+      ['user', 'What is a vector?', { query: 'What is a vector?' }],
+      ['assistant', 'A list of numbers.', {}],
+      ['user', 'And a database?', {}],
+    ]);
+  });
+
+  it('stores no conversation when its first turn cannot be stored', async () => {
+    db = await openTestDatabase();
+    const invalid = [turn[0], { role: 'system', content: 'Be brief.', metadata: {} }] as NewMessage[];
+
+    await expect(ConversationService.create('Question', invalid)).rejects.toThrow();
+    expect(await ConversationService.list()).toEqual([]);
+  });
+
+  it('renames and deletes conversations with their messages', async () => {
+    db = await openTestDatabase();
+    const id = await ConversationService.create('Question', turn);
+
+    await ConversationService.rename(id, '   ');
+    expect((await ConversationService.list())[0].title).toBe('New conversation');
+
+    await ConversationService.remove(id);
+    expect(await ConversationService.list()).toEqual([]);
+    expect((await db.query('SELECT count(*)::int AS count FROM conversation_messages')).rows).toEqual([{ count: 0 }]);
+  });
+});
+
+describe('ConversationService.rewriteQuery', () => {
+  it('asks the model for a standalone question', async () => {
+    vi.mocked(AIWorker.call).mockResolvedValue('"What moons does Jupiter have?"' as never);
+
+    expect(await ConversationService.rewriteQuery('And its moons?', turns)).toBe('What moons does Jupiter have?');
+    expect(vi.mocked(AIWorker.call).mock.lastCall![1]).toMatchObject({ generator: 'answer', prompt: expect.stringContaining('User: And a database?') });
+  });
+
+  it('keeps the question without history or a usable rewrite', async () => {
+    vi.mocked(AIWorker.call).mockReset().mockResolvedValue('  ' as never);
+
+    expect(await ConversationService.rewriteQuery('What is a vector?', [])).toBe('What is a vector?');
+    expect(AIWorker.call).not.toHaveBeenCalled();
+    expect(await ConversationService.rewriteQuery('And its moons?', turns)).toBe('And its moons?');
+  });
+});
@@ -0,0 +1,196 @@
+import type { Transaction } from '@electric-sql/pglite';
+import { VectorDatabase } from './pglite';
+import { AIWorker, type ProgressCallback } from './ai-worker';
+import { PromptTemplateRegistry } from './prompts';
+
+export type MessageRole = 'user' | 'assistant';
+
+export interface Conversation {
+  id: number;
+  title: string;
+  createdAt: string;
+  updatedAt: string;
+  messageCount: number;
+}
+
+export interface ConversationMessage {
+  id: number;
+  role: MessageRole;
+  content: string;
+  // For questions the standalone query that was searched, for answers the cited chunks
+  metadata: Record<string, unknown>;
+  createdAt: string;
+}
+
+export type NewMessage = Pick<ConversationMessage, 'role' | 'content' | 'metadata'>;
+
+// The part of a conversation that goes into prompts
+export type ConversationTurn = Pick<ConversationMessage, 'role' | 'content'>;
+
+export interface HistoryOptions {
+  // Most recent messages to keep
+  maxMessages?: number;
+  // Characters the kept messages may add up to; older ones are dropped first
+  maxChars?: number;
+}
+
+interface ConversationRow {
+  id: number;
+  title: string;
+  created_at: Date;
+  updated_at: Date;
+  message_count: number;
+}
+
+interface MessageRow {
+  id: number;
+  role: MessageRole;
+  content: string;
+  metadata: Record<string, unknown>;
+  created_at: Date;
+}
+
+const MAX_TITLE_LENGTH = 80;
+
+/**
+ * Chat histories for conversation mode, stored in the active collection's
+ * database so they survive reloads.
+ */
+export class ConversationService {
+  static async list(): Promise<Conversation[]> {
+    return VectorDatabase.withDatabase(async (db) => {
+      const result = await db.query<ConversationRow>(
+        `SELECT c.id, c.title, c.created_at, c.updated_at, count(m.id)::int AS message_count
+         FROM conversations c
+         LEFT JOIN conversation_messages m ON m.conversation_id = c.id
+         GROUP BY c.id
+         ORDER BY c.updated_at DESC, c.id DESC`
+      );
+
+      return result.rows.map(row => ({
+        id: row.id,
+        title: row.title,
+        createdAt: new Date(row.created_at).toISOString(),
+        updatedAt: new Date(row.updated_at).toISOString(),
+        messageCount: row.message_count,
+      }));
+    });
+  }
+
+  /**
+   * Starts a conversation, titled after its first question, and stores its
+   * first messages in the same transaction so it is never left empty.
+   */
+  static async create(title: string, messages: NewMessage[] = []): Promise<number> {
+    return VectorDatabase.withDatabase((db) => db.transaction(async (tx) => {
+      const result = await tx.query<{ id: number }>(
+        'INSERT INTO conversations (title) VALUES ($1) RETURNING id',
+        [this.title(title)]
+      );
+      const id = result.rows[0].id;
+      await this.insertMessages(tx, id, messages);
+      return id;
+    }));
+  }
+
+  static async rename(id: number, title: string): Promise<void> {
+    return VectorDatabase.withDatabase(async (db) => {
+      await db.query('UPDATE conversations SET title = $1 WHERE id = $2', [this.title(title), id]);
+    });
+  }
+
+  /**
+   * Deletes a conversation together with all of its messages.
+   */
+  static async remove(id: number): Promise<void> {
+    return VectorDatabase.withDatabase(async (db) => {
+      await db.query('DELETE FROM conversations WHERE id = $1', [id]);
+    });
+  }
+
+  static async messages(id: number): Promise<ConversationMessage[]> {
+    return VectorDatabase.withDatabase(async (db) => {
+      const result = await db.query<MessageRow>(
+        'SELECT id, role, content, metadata, created_at FROM conversation_messages WHERE conversation_id = $1 ORDER BY id',
+        [id]
+      );
+
+      return result.rows.map(row => ({
+        id: row.id,
+        role: row.role,
+        content: row.content,
+        metadata: row.metadata,
+        createdAt: new Date(row.created_at).toISOString(),
+      }));
+    });
+  }
+
+  /**
+   * Appends messages, e.g. a question and its answer, in one transaction.
+   */
+  static async append(id: number, messages: NewMessage[]): Promise<void> {
+    return VectorDatabase.withDatabase((db) => db.transaction(async (tx) => {
+      await this.insertMessages(tx, id, messages);
+      await tx.query('UPDATE conversations SET updated_at = CURRENT_TIMESTAMP WHERE id = $1', [id]);
+    }));
+  }
+
+  /**
+   * Rewrites a follow-up like "what about its moons?" into a question that can
+   * be searched on its own, using the conversation so far. Without history,
+   * or when the model returns nothing usable, the question is kept as is.
+   * @returns The standalone query.
+   */
+  static async rewriteQuery(question: string, history: ConversationTurn[], onProgress?: ProgressCallback): Promise<string> {
+    const formatted = this.formatHistory(history);
+    if (!formatted) return question;
+
+    const output = await AIWorker.call('generate', {
+      generator: 'answer',
+      prompt: PromptTemplateRegistry.render('rewrite', { history: formatted, question }),
+      options: {
+        max_new_tokens: 48,
+        temperature: 0.1,
+        do_sample: false,
+      },
+    }, { onProgress });
+
+    const rewritten = output.trim().replace(/^["']|["']$/g, '').trim();
+    return rewritten || question;
+  }
+
+  /**
+   * Formats the most recent turns as "User: ..." and "Assistant: ..." lines,
+   * keeping prompts short: older turns are dropped first, and a single turn
+   * longer than the limit is cut.
+   */
+  static formatHistory(history: ConversationTurn[], { maxMessages = 4, maxChars = 600 }: HistoryOptions = {}): string {
+    const lines: string[] = [];
+    let length = 0;
+
+    for (const turn of history.slice(-maxMessages).reverse()) {
+      let line = `${turn.role === 'user' ? 'User' : 'Assistant'}: ${turn.content.replace(/\s+/g, ' ').trim()}`;
+      if (length + line.length > maxChars) {
+        if (lines.length > 0) break;
+        line = `${line.slice(0, maxChars - 1)}…`;
+      }
+      lines.unshift(line);
+      length += line.length;
+    }
+    return lines.join('\n');
+  }
+
+  private static async insertMessages(tx: Transaction, id: number, messages: NewMessage[]): Promise<void> {
+    for (const message of messages) {
+      await tx.query(
+        'INSERT INTO conversation_messages (conversation_id, role, content, metadata) VALUES ($1, $2, $3, $4)',
+        [id, message.role, message.content, JSON.stringify(message.metadata)]
+      );
+    }
+  }
+
+  private static title(title: string): string {
+    const trimmed = title.replace(/\s+/g, ' ').trim() || 'New conversation';
+    return trimmed.length > MAX_TITLE_LENGTH ? `${trimmed.slice(0, MAX_TITLE_LENGTH - 1)}…` : trimmed;
+  }
+}
@@ -0,0 +1,89 @@
+import { VectorDatabase } from './pglite';
+import { sha256 } from './hash';
+
+export interface EmbeddingCacheStats {
+  hits: number;
+  misses: number;
+  entries: number;
+  capacity: number;
+}
+
+// Roughly 15 MB of 384-dimensional vectors
+const DEFAULT_CAPACITY = 10000;
+
+export class EmbeddingCache {
+  static capacity = DEFAULT_CAPACITY;
+
+  // Counted since the page was loaded
+  private static hits = 0;
+  private static misses = 0;
+
+  /**
+   * Looks up embeddings of `texts` computed earlier with `model`, marking hits
+   * as recently used.
+   * @returns One entry per text, null where the text is not cached.
+   */
+  static async get(model: string, texts: string[]): Promise<(number[] | null)[]> {
+    if (texts.length === 0) return [];
+    return VectorDatabase.withDatabase(async (db) => {
+      const hashes = await Promise.all(texts.map(text => sha256(text)));
+
+      const result = await db.query<{ text_hash: string; embedding: string }>(
+        `UPDATE embedding_cache SET last_used_at = clock_timestamp()
+         WHERE model = $1 AND text_hash = ANY($2)
+         RETURNING text_hash, embedding::text AS embedding`,
+        [model, hashes]
+      );
+      const cached = new Map(result.rows.map(row => [row.text_hash, JSON.parse(row.embedding) as number[]]));
+
+      const embeddings = hashes.map(hash => cached.get(hash) ?? null);
+      const hits = embeddings.filter(e => e !== null).length;
+      this.hits += hits;
+      this.misses += embeddings.length - hits;
+      return embeddings;
+    });
+  }
+
+  /**
+   * Stores freshly computed embeddings, then evicts the least recently used
+   * entries beyond the capacity.
+   */
+  static async put(model: string, texts: string[], embeddings: number[][]): Promise<void> {
+    if (texts.length === 0) return;
+    return VectorDatabase.withDatabase(async (db) => {
+      const hashes = await Promise.all(texts.map(text => sha256(text)));
+      // A batch can repeat a text, but one INSERT cannot touch the same row twice
+      const entries = new Map(hashes.map((hash, index) => [hash, JSON.stringify(embeddings[index])]));
+
+      await db.transaction(async (tx) => {
+        await tx.query(
+          `INSERT INTO embedding_cache (model, text_hash, embedding)
+           SELECT $1, h, e::vector FROM unnest($2::text[], $3::text[]) AS t(h, e)
+           ON CONFLICT (model, text_hash) DO UPDATE SET last_used_at = clock_timestamp()`,
+          [model, Array.from(entries.keys()), Array.from(entries.values())]
+        );
+        await tx.query(
+          `DELETE FROM embedding_cache c
+           USING (SELECT model, text_hash FROM embedding_cache ORDER BY last_used_at DESC OFFSET $1) stale
+           WHERE c.model = stale.model AND c.text_hash = stale.text_hash`,
+          [this.capacity]
+        );
+      });
+    });
+  }
+
+  static async stats(): Promise<EmbeddingCacheStats> {
+    return VectorDatabase.withDatabase(async (db) => {
+      const result = await db.query<{ entries: number }>('SELECT count(*)::int AS entries FROM embedding_cache');
+      return { hits: this.hits, misses: this.misses, entries: result.rows[0].entries, capacity: this.capacity };
+    });
+  }
+
+  static async clear(): Promise<void> {
+    return VectorDatabase.withDatabase(async (db) => {
+      await db.exec('DELETE FROM embedding_cache');
+      this.hits = 0;
+      this.misses = 0;
+    });
+  }
+}
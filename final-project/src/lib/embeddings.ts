@@ -1,32 +1,60 @@
-import { pipeline, type FeatureExtractionPipeline } from '@huggingface/transformers';
-
-// Define a type for the progress callback information
-type ProgressInfo = {
-  status: string;
-  progress?: number;
-  [key: string]: unknown; 
-};
+import { AIWorker, type ProgressCallback } from './ai-worker';
+import { ModelRegistry, type EmbeddingModel } from './models';
+import { EmbeddingCache } from './embedding-cache';
 
 export class EmbeddingService {
-  private static pipeline: FeatureExtractionPipeline | null = null;
+  /**
+   * Downloads and initializes the embedding model ahead of the first request.
+   * @param onProgress An optional callback to track model loading progress.
+   * @param model Defaults to the model the stored corpus was embedded with.
+   */
+  static async load(onProgress?: ProgressCallback, model?: EmbeddingModel): Promise<void> {
+    model ??= await ModelRegistry.getActiveModel();
+    await AIWorker.call('loadEmbedding', { model: model.id }, { onProgress });
+  }
+
+  /**
+   * Embeds a search query, with the query prefix of models that use one.
+   * @param model Defaults to the model the stored corpus was embedded with.
+   */
+  static async generate(text: string, model?: EmbeddingModel): Promise<number[]> {
+    model ??= await ModelRegistry.getActiveModel();
+    const [embedding] = await this.embed([model.queryPrefix + text], model);
+    return embedding;
+  }
 
-  static async getPipeline(onProgress?: (progress: number) => void): Promise<FeatureExtractionPipeline> {
-    if (this.pipeline) return this.pipeline;
+  /**
+   * Embeds many passages at once, running the pipeline on batches of `batchSize`
+   * inputs instead of one call per text. Results keep the order of `texts`.
+   * @param model Defaults to the model the stored corpus was embedded with.
+   */
+  static async generateBatch(texts: string[], batchSize = 16, model?: EmbeddingModel): Promise<number[][]> {
+    model ??= await ModelRegistry.getActiveModel();
+    const embeddings: number[][] = [];
 
-    this.pipeline = await (pipeline as any)('feature-extraction', 'Xenova/all-MiniLM-L6-v2', {
-      progress_callback: (info: ProgressInfo) => {
-        if (info.status === 'progress' && info.progress !== undefined) {
-          onProgress?.(info.progress);
-        }
-      },
-    });
+    for (let i = 0; i < texts.length; i += batchSize) {
+      const batch = texts.slice(i, i + batchSize).map(text => model.passagePrefix + text);
+      embeddings.push(...await this.embed(batch, model));
+    }
 
-    return this.pipeline!;
+    return embeddings;
   }
 
-  static async generate(text: string): Promise<number[]> {
-    const extractor = await this.getPipeline();
-    const output = await extractor(text, { pooling: 'mean', normalize: true });
-    return Array.from(output.data as Float32Array);
+  /**
+   * Runs the model only on inputs that are not in the persistent cache, and
+   * caches what it computes.
+   */
+  private static async embed(inputs: string[], model: EmbeddingModel): Promise<number[][]> {
+    const cached = await EmbeddingCache.get(model.id, inputs);
+    const missing = inputs.filter((_, index) => cached[index] === null);
+
+    const computed = missing.length > 0
+      ? await AIWorker.call('embed', { texts: missing, model: model.id, pooling: model.pooling })
+      : [];
+    ModelRegistry.assertDimension(model, computed);
+    await EmbeddingCache.put(model.id, missing, computed);
+
+    let next = 0;
+    return cached.map(embedding => embedding ?? computed[next++]);
   }
 }
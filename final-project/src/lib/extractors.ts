@@ -0,0 +1,146 @@
+import type { TextItem } from 'pdfjs-dist/types/src/display/api';
+import { BINARY_FORMATS, DocumentBuilder, detectFormat, parseDocument, type ParsedDocument } from './parsers';
+
+export class ExtractionError extends Error {
+  readonly fileName: string;
+
+  constructor(fileName: string, cause: unknown) {
+    super(`Could not read ${fileName}: ${cause instanceof Error ? cause.message : String(cause)}`, { cause });
+    this.name = 'ExtractionError';
+    this.fileName = fileName;
+  }
+}
+
+/**
+ * Reads an uploaded file into a parsed document, entirely in the browser.
+ * Text formats go through `parseDocument`; PDF and Word files have their text
+ * extracted with page and paragraph numbers.
+ * @throws ExtractionError naming the file if it cannot be read.
+ */
+export async function extractFile(file: File): Promise<ParsedDocument> {
+  const format = detectFormat(file.name);
+  try {
+    if (!BINARY_FORMATS.has(format)) return parseDocument(await file.text(), format);
+    const data = await file.arrayBuffer();
+    const document = format === 'pdf' ? await extractPdf(data) : await extractDocx(data);
+    if (document.text === '') throw new Error('no text found; scanned documents need OCR first');
+    return document;
+  } catch (error) {
+    throw new ExtractionError(file.name, error);
+  }
+}
+
+// pdf.js is large, so it is only loaded once a PDF is uploaded
+async function loadPdfJs() {
+  const [pdfjs, { default: workerUrl }] = await Promise.all([
+    import('pdfjs-dist'),
+    import('pdfjs-dist/build/pdf.worker.min.mjs?url'),
+  ]);
+  pdfjs.GlobalWorkerOptions.workerSrc = workerUrl;
+  return pdfjs;
+}
+
+/**
+ * Extracts the text layer of a PDF. Lines are rejoined into paragraphs, which
+ * are split where the vertical gap between lines is larger than usual.
+ */
+export async function extractPdf(data: ArrayBuffer): Promise<ParsedDocument> {
+  const pdfjs = await loadPdfJs();
+  const pdf = await pdfjs.getDocument({ data }).promise;
+  const builder = new DocumentBuilder();
+
+  try {
+    for (let number = 1; number <= pdf.numPages; number++) {
+      const page = await pdf.getPage(number);
+      const content = await page.getTextContent();
+      builder.page();
+
+      const items = content.items.filter((item): item is TextItem => 'str' in item);
+      const lines: { text: string; y: number; height: number }[] = [];
+      let line = '';
+      for (const [index, item] of items.entries()) {
+        line += item.str;
+        if (item.hasEOL || index === items.length - 1) {
+          if (line.trim() !== '') lines.push({ text: line.trim(), y: item.transform[5], height: item.height });
+          line = '';
+        }
+      }
+
+      let paragraph = '';
+      for (const [index, current] of lines.entries()) {
+        paragraph = joinLines(paragraph, current.text);
+        const next = lines[index + 1];
+        // Lines run top to bottom, so the baseline y decreases
+        if (!next || current.y - next.y > Math.max(current.height, next.height) * 1.5) {
+          builder.paragraph(paragraph.replace(/\s+/g, ' '));
+          paragraph = '';
+        }
+      }
+      page.cleanup();
+    }
+
+    const { info } = await pdf.getMetadata();
+    const title = (info as { Title?: string }).Title?.trim();
+    return { ...builder.finish('pdf'), ...(title && { title }) };
+  } finally {
+    await pdf.destroy();
+  }
+}
+
+function joinLines(paragraph: string, line: string): string {
+  if (paragraph === '') return line;
+  // Words hyphenated at a line break are put back together
+  if (/[a-z]-$/.test(paragraph) && /^[a-z]/.test(line)) return paragraph.slice(0, -1) + line;
+  return `${paragraph} ${line}`;
+}
+
+const WORD_NAMESPACE = 'http://schemas.openxmlformats.org/wordprocessingml/2006/main';
+
+/**
+ * Extracts the body text of a Word document. Paragraphs styled as headings
+ * become sections, table rows become lines with ` | ` between cells, and every
+ * other paragraph is numbered. Word does not store page breaks made by layout,
+ * so there are no page numbers.
+ */
+export async function extractDocx(data: ArrayBuffer): Promise<ParsedDocument> {
+  const { default: JSZip } = await import('jszip');
+  const zip = await JSZip.loadAsync(data);
+  const xml = await zip.file('word/document.xml')?.async('string');
+  if (!xml) throw new Error('not a Word document');
+
+  const doc = new DOMParser().parseFromString(xml, 'application/xml');
+  const body = doc.getElementsByTagNameNS(WORD_NAMESPACE, 'body')[0];
+  if (!body) throw new Error('the document has no body');
+  const builder = new DocumentBuilder();
+
+  for (const element of Array.from(body.children)) {
+    if (element.localName === 'p') {
+      const text = paragraphText(element).trim();
+      if (text === '') continue;
+      const style = element.getElementsByTagNameNS(WORD_NAMESPACE, 'pStyle')[0]?.getAttributeNS(WORD_NAMESPACE, 'val') ?? '';
+      const heading = style.match(/^Heading([1-6])$/i);
+      if (style === 'Title') builder.heading(1, text);
+      else if (heading) builder.heading(Number(heading[1]), text);
+      else builder.paragraph(text);
+    } else if (element.localName === 'tbl') {
+      const rows = Array.from(element.getElementsByTagNameNS(WORD_NAMESPACE, 'tr'), row =>
+        Array.from(row.getElementsByTagNameNS(WORD_NAMESPACE, 'tc'), cell =>
+          Array.from(cell.getElementsByTagNameNS(WORD_NAMESPACE, 'p'), paragraphText).join(' ').trim()
+        ).join(' | ')
+      );
+      builder.paragraph(rows.join('\n'));
+    }
+  }
+
+  return builder.finish('docx');
+}
+
+function paragraphText(paragraph: Element): string {
+  let text = '';
+  for (const node of Array.from(paragraph.getElementsByTagNameNS(WORD_NAMESPACE, '*'))) {
+    if (node.localName === 't') text += node.textContent ?? '';
+    else if (node.localName === 'tab') text += '\t';
+    else if (node.localName === 'br' || node.localName === 'cr') text += '\n';
+  }
+  return text;
+}
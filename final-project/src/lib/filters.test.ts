@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest';
+import { compileMetadataFilter, describeMetadataFilter } from './filters';
+
+describe('compileMetadataFilter', () => {
+  it('binds keys and values as parameters after the existing ones', () => {
+    const params: unknown[] = ['embedding', 5];
+    const sql = compileMetadataFilter({ op: 'eq', key: 'chunking.strategy', value: 'markdown' }, params);
+
+    expect(sql).toBe('(c.metadata #> $3::text[]) = $4::jsonb');
+    expect(params).toEqual(['embedding', 5, ['chunking', 'strategy'], '"markdown"']);
+  });
+
+  it('matches any of several values', () => {
+    const params: unknown[] = [];
+    const sql = compileMetadataFilter({ op: 'in', key: 'lang', values: ['en', 'de'] }, params);
+
+    expect(sql).toBe('$1::jsonb @> jsonb_build_array((c.metadata #> $2::text[]))');
+    expect(params).toEqual(['["en","de"]', ['lang']]);
+  });
+
+  it('compiles an empty value list to a filter that matches nothing', () => {
+    expect(compileMetadataFilter({ op: 'in', key: 'lang', values: [] }, [])).toBe('FALSE');
+  });
+
+  it('guards range casts and converts dates to ISO strings', () => {
+    const params: unknown[] = [];
+    const sql = compileMetadataFilter({ op: 'range', key: 'timestamp', type: 'date', gte: new Date('2024-01-01T00:00:00Z') }, params);
+
+    expect(sql).toContain("jsonb_typeof((c.metadata #> $1::text[])) = 'string'");
+    expect(sql).toContain('>= $2::timestamptz');
+    expect(params).toEqual([['timestamp'], '2024-01-01T00:00:00.000Z']);
+  });
+
+  it('rejects a range without bounds and an empty key', () => {
+    expect(() => compileMetadataFilter({ op: 'range', key: 'page', type: 'number' }, [])).toThrow('needs a lower or upper bound');
+    expect(() => compileMetadataFilter({ op: 'exists', key: ' ' }, [])).toThrow('must not be empty');
+  });
+
+  it('nests and/or groups and handles empty groups', () => {
+    const params: unknown[] = [];
+    const sql = compileMetadataFilter({
+      op: 'and',
+      filters: [
+        { op: 'exists', key: 'source' },
+        { op: 'or', filters: [{ op: 'eq', key: 'page', value: 1 }, { op: 'eq', key: 'page', value: 2 }] },
+      ],
+    }, params, 'm');
+
+    expect(sql).toBe('((m #> $1::text[]) IS NOT NULL AND ((m #> $2::text[]) = $3::jsonb OR (m #> $4::text[]) = $5::jsonb))');
+    expect(compileMetadataFilter({ op: 'and', filters: [] }, [])).toBe('TRUE');
+    expect(compileMetadataFilter({ op: 'or', filters: [] }, [])).toBe('FALSE');
+  });
+});
+
+describe('describeMetadataFilter', () => {
+  it('writes filters the way the filter chips show them', () => {
+    expect(describeMetadataFilter({ op: 'range', key: 'page', type: 'number', gte: 2, lte: 5 })).toBe('2 ≤ page ≤ 5');
+    expect(describeMetadataFilter({
+      op: 'or',
+      filters: [{ op: 'in', key: 'lang', values: ['en', 'de'] }, { op: 'exists', key: 'links' }],
+    })).toBe('(lang in [en, de]) or (has links)');
+  });
+});
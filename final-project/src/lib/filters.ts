@@ -0,0 +1,88 @@
+export type MetadataValue = string | number | boolean;
+
+/**
+ * Filter on chunk metadata. `key` is a metadata field name; nested fields are
+ * addressed with dots, e.g. `chunking.strategy`.
+ */
+export type MetadataFilter =
+  | { op: 'eq'; key: string; value: MetadataValue }
+  | { op: 'in'; key: string; values: MetadataValue[] }
+  | { op: 'range'; key: string; type: 'number'; gte?: number; lte?: number }
+  | { op: 'range'; key: string; type: 'date'; gte?: string | Date; lte?: string | Date }
+  | { op: 'exists'; key: string }
+  | { op: 'and'; filters: MetadataFilter[] }
+  | { op: 'or'; filters: MetadataFilter[] };
+
+/**
+ * Compiles a filter into a boolean SQL expression over a JSONB column. Values
+ * and keys are appended to `params` and referenced by position, so the result
+ * can be spliced into a query that already uses `params.length` parameters.
+ */
+export function compileMetadataFilter(filter: MetadataFilter, params: unknown[], column = 'c.metadata'): string {
+  const bind = (value: unknown) => {
+    params.push(value);
+    return `$${params.length}`;
+  };
+  const field = (key: string) => {
+    if (!key.trim()) throw new Error('Metadata filter key must not be empty');
+    return `(${column} #> ${bind(key.split('.'))}::text[])`;
+  };
+
+  switch (filter.op) {
+    case 'eq':
+      return `${field(filter.key)} = ${bind(JSON.stringify(filter.value))}::jsonb`;
+
+    case 'in':
+      if (filter.values.length === 0) return 'FALSE';
+      return `${bind(JSON.stringify(filter.values))}::jsonb @> jsonb_build_array(${field(filter.key)})`;
+
+    case 'range': {
+      const value = field(filter.key);
+      // Guard the cast so rows whose field has another type are skipped instead of failing the query
+      const typed = filter.type === 'number'
+        ? `CASE WHEN jsonb_typeof(${value}) = 'number' THEN (${value} #>> '{}')::numeric END`
+        : `CASE WHEN jsonb_typeof(${value}) = 'string' AND ${value} #>> '{}' ~ '^\\d{4}-\\d{2}-\\d{2}' THEN (${value} #>> '{}')::timestamptz END`;
+      const cast = filter.type === 'number' ? 'numeric' : 'timestamptz';
+      const toParam = (bound: number | string | Date) => bound instanceof Date ? bound.toISOString() : bound;
+
+      const conditions: string[] = [];
+      if (filter.gte !== undefined) conditions.push(`${typed} >= ${bind(toParam(filter.gte))}::${cast}`);
+      if (filter.lte !== undefined) conditions.push(`${typed} <= ${bind(toParam(filter.lte))}::${cast}`);
+      if (conditions.length === 0) throw new Error(`Range filter on "${filter.key}" needs a lower or upper bound`);
+      return `(${conditions.join(' AND ')})`;
+    }
+
+    case 'exists':
+      return `${field(filter.key)} IS NOT NULL`;
+
+    case 'and':
+    case 'or': {
+      if (filter.filters.length === 0) return filter.op === 'and' ? 'TRUE' : 'FALSE';
+      const parts = filter.filters.map(f => compileMetadataFilter(f, params, column));
+      return `(${parts.join(filter.op === 'and' ? ' AND ' : ' OR ')})`;
+    }
+  }
+}
+
+/**
+ * Short human-readable form of a filter, used for filter chips.
+ */
+export function describeMetadataFilter(filter: MetadataFilter): string {
+  switch (filter.op) {
+    case 'eq':
+      return `${filter.key} = ${filter.value}`;
+    case 'in':
+      return `${filter.key} in [${filter.values.join(', ')}]`;
+    case 'range': {
+      const format = (bound: number | string | Date) => bound instanceof Date ? bound.toISOString().slice(0, 10) : String(bound);
+      if (filter.gte !== undefined && filter.lte !== undefined) return `${format(filter.gte)} ≤ ${filter.key} ≤ ${format(filter.lte)}`;
+      if (filter.gte !== undefined) return `${filter.key} ≥ ${format(filter.gte)}`;
+      return `${filter.key} ≤ ${format(filter.lte!)}`;
+    }
+    case 'exists':
+      return `has ${filter.key}`;
+    case 'and':
+    case 'or':
+      return filter.filters.map(f => `(${describeMetadataFilter(f)})`).join(` ${filter.op} `);
+  }
+}
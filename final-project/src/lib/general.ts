@@ -1,49 +1,29 @@
-import { pipeline, type Pipeline } from '@huggingface/transformers';
-
-type ProgressCallback = (progress: number) => void;
-
-// Define a singleton class for the general knowledge pipeline
-class GeneralKnowledgePipeline {
-  static task = 'text2text-generation';
-  // This model is larger and better at general instruction-following and Q&A
-  static model = 'Xenova/LaMini-Flan-T5-248M';
-  static instance: Pipeline | null = null;
-
-  static async getInstance(progress_callback?: ProgressCallback) {
-    if (this.instance === null) {
-      this.instance = await (pipeline as any)(this.task as any, this.model, { progress_callback });
-    }
-    return this.instance;
-  }
-}
+import { AIWorker, type ProgressCallback, type StreamOptions } from './ai-worker';
+import { PromptTemplateRegistry, parseStructuredAnswer, type StructuredAnswer } from './prompts';
 
 export class GeneralKnowledgeService {
   /**
    * Generates an answer to a query based on the model's pre-trained "world knowledge."
    * @param query The user's question.
    * @param progress_callback An optional callback to track model loading progress.
-   * @returns The synthesized answer.
+   * @param stream Receives the answer as it is generated, and can stop generation early.
+   * @returns The synthesized answer, with reasoning if the template asks for it.
    */
-  static async answer(query: string, progress_callback?: ProgressCallback): Promise<string> {
-    const generator = await GeneralKnowledgePipeline.getInstance(progress_callback);
-
-    // Construct a simple, direct prompt for general Q&A
-    const prompt = `
-      Please provide a concise and accurate answer to the following question.
-
-      Question:
-      ${query}
-
-      Answer:
-    `;
+  static async answer(query: string, progress_callback?: ProgressCallback, stream: StreamOptions = {}): Promise<StructuredAnswer> {
+    // Fill in the simple, direct template for general Q&A
+    const prompt = PromptTemplateRegistry.render('general', { question: query });
 
     // Generate the answer
-    const result = await (generator as any)(prompt, {
-      max_new_tokens: 250,
-      temperature: 0.7,
-      do_sample: true,
-    });
-
-    return result[0].generated_text;
+    const rawResult = await AIWorker.call('generate', {
+      generator: 'general',
+      prompt,
+      options: {
+        max_new_tokens: 250,
+        temperature: 0.7,
+        do_sample: true,
+      },
+    }, { ...stream, onProgress: progress_callback });
+
+    return parseStructuredAnswer(rawResult);
   }
 }
@@ -0,0 +1,8 @@
+/**
+ * Hex-encoded SHA-256 digest of a string, matching Postgres'
+ * `encode(sha256(convert_to(text, 'UTF8')), 'hex')`.
+ */
+export async function sha256(text: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+  return Array.from(new Uint8Array(digest), b => b.toString(16).padStart(2, '0')).join('');
+}
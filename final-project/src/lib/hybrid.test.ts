@@ -0,0 +1,94 @@
+import { describe, expect, it } from 'vitest';
+import type { Citation, GroundedAnswer } from './answer';
+import { HybridAnswerService } from './hybrid';
+import type { SearchResult } from './search';
+
+function result(id: number, content: string): SearchResult {
+  return {
+    id,
+    content,
+    metadata: {},
+    similarity: 0.8,
+    sourceId: 1,
+    sourceTitle: 'Planets',
+    chunkIndex: id,
+    vectorScore: 0.8,
+    lexicalScore: 0,
+    fusedScore: 0.8,
+  };
+}
+
+// A document answer whose sentences each cite the passage with the same index
+function documentAnswer(sentences: string[], passages: SearchResult[]): GroundedAnswer {
+  const citations: Citation[] = [];
+  let text = '';
+  sentences.forEach((sentence, index) => {
+    if (text) text += ' ';
+    citations.push({ number: index + 1, chunkId: passages[index].id, start: text.length, end: text.length + sentence.length, explicit: true });
+    text += sentence;
+  });
+  return {
+    text,
+    citations,
+    citedChunkIds: passages.map(p => p.id),
+    reasoning: null,
+    packing: { included: passages, dropped: [], maxTokens: 512, reservedTokens: 100, usedTokens: 200 },
+  };
+}
+
+const world = (answer: string) => ({ answer, reasoning: null });
+
+describe('HybridAnswerService.fuse', () => {
+  it('keeps document sentences with their citations and adds what the model knows beyond them', () => {
+    const passages = [result(1, 'Jupiter is the largest planet.')];
+    const fused = HybridAnswerService.fuse(
+      documentAnswer(['Jupiter is the largest planet.'], passages),
+      world('Jupiter is the largest planet in the solar system. It is a gas giant made of hydrogen.')
+    );
+
+    expect(fused.sentences.map(s => [s.text, s.provenance])).toEqual([
+      ['Jupiter is the largest planet.', 'document'],
+      ['It is a gas giant made of hydrogen.', 'model'],
+    ]);
+    expect(fused.sentences[0].citations.map(c => c.chunkId)).toEqual([1]);
+    expect(fused.conflicts).toEqual([]);
+  });
+
+  it('prefers the documents when the numbers differ', () => {
+    const passages = [result(7, 'Jupiter has 95 known moons.')];
+    const fused = HybridAnswerService.fuse(
+      documentAnswer(['Jupiter has 95 known moons.'], passages),
+      world('Jupiter has 79 known moons.')
+    );
+
+    const conflict = { modelText: 'Jupiter has 79 known moons.', documentText: 'Jupiter has 95 known moons.', chunkId: 7, reason: 'number' };
+    expect(fused.sentences.map(s => s.provenance)).toEqual(['document']);
+    expect(fused.sentences[0].conflicts).toEqual([conflict]);
+    expect(fused.conflicts).toEqual([conflict]);
+  });
+
+  it('finds negations against passages the document answer left out', () => {
+    const passages = [result(1, 'Mercury is closest to the sun.'), result(2, 'Venus has no moons at all. It rotates slowly.')];
+    const fused = HybridAnswerService.fuse(
+      documentAnswer(['Mercury is closest to the sun.'], passages.slice(0, 1)),
+      world('Venus has moons at all.')
+    );
+    // Only passages that made it into the prompt count
+    expect(fused.conflicts).toEqual([]);
+
+    const withPassage = HybridAnswerService.fuse(
+      { ...documentAnswer(['Mercury is closest to the sun.'], passages.slice(0, 1)), packing: { included: passages, dropped: [], maxTokens: 512, reservedTokens: 100, usedTokens: 200 } },
+      world('Venus has moons at all.')
+    );
+    expect(withPassage.conflicts).toEqual([
+      { modelText: 'Venus has moons at all.', documentText: 'Venus has no moons at all.', chunkId: 2, reason: 'negation' },
+    ]);
+    expect(withPassage.sentences.map(s => s.provenance)).toEqual(['document']);
+  });
+
+  it('works with only one of the answers', () => {
+    expect(HybridAnswerService.fuse(null, world('Pluto is a dwarf planet.')).sentences.map(s => s.provenance)).toEqual(['model']);
+    expect(HybridAnswerService.fuse(documentAnswer(['Pluto is far.'], [result(1, 'Pluto is far.')]), null).sentences).toHaveLength(1);
+    expect(HybridAnswerService.fuse(null, null)).toEqual({ sentences: [], conflicts: [] });
+  });
+});
@@ -0,0 +1,162 @@
+import type { Citation, GroundedAnswer } from './answer';
+import type { StructuredAnswer } from './prompts';
+
+// Where a sentence of the fused answer comes from
+export type Provenance = 'document' | 'model';
+
+/**
+ * A sentence of the model's answer that disagrees with the documents, and
+ * was left out of the fused answer in their favour.
+ */
+export interface KnowledgeConflict {
+  modelText: string;
+  // The document answer sentence or, failing that, the retrieved passage sentence it contradicts
+  documentText: string;
+  // The chunk the document side comes from, when it is known
+  chunkId: number | null;
+  // Numbers that differ, or one side negating what the other states
+  reason: 'number' | 'negation';
+}
+
+export interface HybridSentence {
+  text: string;
+  provenance: Provenance;
+  // The chunks supporting a document sentence; always empty for model sentences
+  citations: Citation[];
+  // Model sentences this document sentence overrode
+  conflicts: KnowledgeConflict[];
+}
+
+export interface HybridAnswer {
+  sentences: HybridSentence[];
+  // Every conflict, including ones found against passages rather than answer sentences
+  conflicts: KnowledgeConflict[];
+}
+
+interface Statement {
+  text: string;
+  words: Set<string>;
+  numbers: Set<string>;
+  negated: boolean;
+}
+
+// Share of the shorter sentence's words two sentences must share to be about the same thing
+const SAME_TOPIC = 0.4;
+// Share above which a model sentence only repeats a document sentence
+const REDUNDANT = 0.7;
+
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'for', 'from', 'has', 'have', 'in', 'is', 'it', 'its',
+  'of', 'on', 'or', 'that', 'the', 'their', 'there', 'this', 'to', 'was', 'were', 'which', 'with',
+]);
+
+const NEGATIONS = new Set(['not', 'no', 'never', 'none', 'neither', 'nor', 'cannot', 'without']);
+
+/**
+ * Combines the document answer and the world knowledge answer. Both are
+ * generated, and streamed, by their own services; `fuse` runs once they are done.
+ */
+export class HybridAnswerService {
+  /**
+   * Merges both answers sentence by sentence. Every document sentence is kept
+   * with its citations. A model sentence is added only if it brings something
+   * new: it is left out when it repeats a document sentence, and when it
+   * contradicts the documents (different numbers, or opposite negation about
+   * the same thing) it is left out and recorded as a conflict, since the
+   * documents are the evidence the user chose.
+   * Either answer may be missing, e.g. when there were no search results or
+   * generation was cancelled.
+   */
+  static fuse(document: GroundedAnswer | null, world: StructuredAnswer | null): HybridAnswer {
+    const documentSentences: HybridSentence[] = document
+      ? splitSentences(document.text).map(({ text, start, end }) => ({
+          text,
+          provenance: 'document',
+          citations: document.citations.filter(c => c.start >= start && c.end <= end),
+          conflicts: [],
+        }))
+      : [];
+    const documentStatements = documentSentences.map(sentence => statement(sentence.text));
+
+    // Passage sentences catch conflicts with facts the short document answer left out
+    const passageStatements = (document?.packing.included ?? []).flatMap(result =>
+      splitSentences(result.content).map(({ text }) => ({ ...statement(text), chunkId: result.id }))
+    );
+
+    const modelSentences: HybridSentence[] = [];
+    const conflicts: KnowledgeConflict[] = [];
+
+    for (const { text } of splitSentences(world?.answer ?? '')) {
+      const claim = statement(text);
+
+      const answerConflict = findContradiction(claim, documentStatements);
+      if (answerConflict) {
+        const sentence = documentSentences[answerConflict.index];
+        const conflict: KnowledgeConflict = {
+          modelText: text,
+          documentText: sentence.text,
+          chunkId: sentence.citations[0]?.chunkId ?? null,
+          reason: answerConflict.reason,
+        };
+        sentence.conflicts.push(conflict);
+        conflicts.push(conflict);
+        continue;
+      }
+
+      const passageConflict = findContradiction(claim, passageStatements);
+      if (passageConflict) {
+        const passage = passageStatements[passageConflict.index];
+        conflicts.push({ modelText: text, documentText: passage.text, chunkId: passage.chunkId, reason: passageConflict.reason });
+        continue;
+      }
+
+      if (documentStatements.some(other => overlap(claim, other) >= REDUNDANT)) continue;
+      modelSentences.push({ text, provenance: 'model', citations: [], conflicts: [] });
+    }
+
+    return { sentences: [...documentSentences, ...modelSentences], conflicts };
+  }
+}
+
+function splitSentences(text: string): { text: string; start: number; end: number }[] {
+  return Array.from(text.matchAll(/[^.!?\n]+(?:[.!?]+["')\]]*|\n+|$)/g), match => {
+    const leading = match[0].length - match[0].trimStart().length;
+    const sentence = match[0].trim();
+    return { text: sentence, start: match.index + leading, end: match.index + leading + sentence.length };
+  }).filter(sentence => sentence.text.length > 0);
+}
+
+function statement(text: string): Statement {
+  const tokens = text.toLowerCase().replace(/n't\b/g, ' not').match(/[\p{L}\p{N}]+(?:[.,]\d+)*/gu) ?? [];
+  const numbers = new Set(tokens.filter(token => /^\d/.test(token)).map(token => token.replace(/,/g, '')));
+  const words = new Set(tokens.filter(token =>
+    !numbers.has(token.replace(/,/g, '')) && !STOP_WORDS.has(token) && !NEGATIONS.has(token)
+  ));
+  return { text, words, numbers, negated: tokens.some(token => NEGATIONS.has(token)) };
+}
+
+function sharedWords(a: Statement, b: Statement): number {
+  return Array.from(a.words).filter(word => b.words.has(word)).length;
+}
+
+function overlap(a: Statement, b: Statement): number {
+  const smaller = Math.min(a.words.size, b.words.size);
+  return smaller === 0 ? 0 : sharedWords(a, b) / smaller;
+}
+
+// Why two statements about the same thing disagree, or null if they do not
+function contradiction(a: Statement, b: Statement): KnowledgeConflict['reason'] | null {
+  // One shared word is too little to say they are about the same thing
+  if (sharedWords(a, b) < 2 || overlap(a, b) < SAME_TOPIC) return null;
+  if (a.numbers.size > 0 && b.numbers.size > 0 && !Array.from(a.numbers).some(n => b.numbers.has(n))) return 'number';
+  if (a.negated !== b.negated) return 'negation';
+  return null;
+}
+
+function findContradiction(claim: Statement, statements: Statement[]): { index: number; reason: KnowledgeConflict['reason'] } | null {
+  for (const [index, other] of statements.entries()) {
+    const reason = contradiction(claim, other);
+    if (reason) return { index, reason };
+  }
+  return null;
+}
@@ -0,0 +1,179 @@
+import { IngestionService, type IngestResult } from './ingestion';
+import { VectorDatabase } from './pglite';
+import type { ChunkingStrategy } from './chunking';
+
+// Which fields of a record hold what. Nested fields are addressed with dots, e.g. `meta.author`.
+export interface FieldMapping {
+  content: string;
+  title?: string;
+  // Copied into the metadata of the source and its chunks under their own names
+  metadata: string[];
+}
+
+export interface ImportOptions {
+  // Recorded as the origin of every imported source, e.g. the file name
+  origin?: string;
+  strategy?: ChunkingStrategy;
+  onProgress?: (progress: ImportProgress) => void;
+}
+
+export interface RecordResult {
+  // 1-based position of the record in the array, or its line number in JSONL
+  record: number;
+  title?: string;
+  result?: IngestResult;
+  error?: string;
+}
+
+export interface ImportProgress {
+  done: number;
+  total: number;
+  failed: number;
+  latest: RecordResult;
+}
+
+export interface ImportReport {
+  records: RecordResult[];
+  imported: number;
+  failed: number;
+}
+
+// A record as read from the file; lines of a JSONL file that are not valid JSON carry an error
+export interface ImportRecord {
+  record: number;
+  value?: unknown;
+  error?: string;
+}
+
+export class CorpusImporter {
+  /**
+   * Reads a JSON array of objects, or JSONL with one object per line.
+   * A JSONL line that cannot be parsed fails on its own instead of failing the whole file.
+   * @throws Error if the text is neither.
+   */
+  static parse(text: string): ImportRecord[] {
+    const trimmed = text.trim();
+    if (trimmed.startsWith('[')) {
+      const values: unknown = JSON.parse(trimmed);
+      if (!Array.isArray(values)) throw new Error('Expected a JSON array of records');
+      return values.map((value, index) => ({ record: index + 1, value }));
+    }
+
+    const records: ImportRecord[] = [];
+    text.split(/\r?\n/).forEach((line, index) => {
+      if (line.trim() === '') return;
+      try {
+        records.push({ record: index + 1, value: JSON.parse(line) });
+      } catch (error) {
+        records.push({ record: index + 1, error: `Invalid JSON: ${error instanceof Error ? error.message : String(error)}` });
+      }
+    });
+    if (records.length > 0 && records.every(r => r.error)) {
+      throw new Error('Expected a JSON array or JSON Lines');
+    }
+    return records;
+  }
+
+  /**
+   * Field names found in the first records, nested ones in dotted form, to
+   * offer for mapping.
+   */
+  static fields(records: ImportRecord[], sample = 50): string[] {
+    const fields = new Set<string>();
+    const collect = (value: unknown, prefix: string) => {
+      if (!isObject(value)) return;
+      for (const [key, nested] of Object.entries(value)) {
+        const path = prefix ? `${prefix}.${key}` : key;
+        if (isObject(nested)) collect(nested, path);
+        else fields.add(path);
+      }
+    };
+    records.slice(0, sample).forEach(r => collect(r.value, ''));
+    return Array.from(fields);
+  }
+
+  /**
+   * A mapping that uses the conventional field names when they are present
+   * and copies every other field into metadata.
+   */
+  static guessMapping(fields: string[]): FieldMapping {
+    const pick = (candidates: string[]) => candidates.find(c => fields.includes(c));
+    const content = pick(['content', 'text', 'body', 'document', 'page_content']) ?? fields[0] ?? 'content';
+    const title = pick(['title', 'name', 'heading', 'subject']);
+    return { content, title, metadata: fields.filter(f => f !== content && f !== title) };
+  }
+
+  /**
+   * Ingests records one by one. A record that has no content or fails to
+   * ingest is reported and skipped, and the import carries on with the next.
+   */
+  static async import(records: ImportRecord[], mapping: FieldMapping, options: ImportOptions = {}): Promise<ImportReport> {
+    const report: ImportReport = { records: [], imported: 0, failed: 0 };
+
+    // Held for the whole import so every record goes to the same collection
+    await VectorDatabase.withDatabase(async () => {
+      for (const raw of records) {
+        const latest = await this.importRecord(raw, mapping, options);
+        report.records.push(latest);
+        if (latest.error) report.failed++;
+        else report.imported++;
+        options.onProgress?.({ done: report.records.length, total: records.length, failed: report.failed, latest });
+      }
+    });
+
+    return report;
+  }
+
+  private static async importRecord(raw: ImportRecord, mapping: FieldMapping, options: ImportOptions): Promise<RecordResult> {
+    const { record } = raw;
+    if (raw.error) return { record, error: raw.error };
+    if (!isObject(raw.value)) return { record, error: 'Not an object' };
+
+    const content = getField(raw.value, mapping.content);
+    const titleValue = mapping.title ? getField(raw.value, mapping.title) : undefined;
+    const title = titleValue === undefined || titleValue === null ? undefined : String(titleValue);
+    if (typeof content !== 'string' || content.trim() === '') {
+      return { record, title, error: `No text in field "${mapping.content}"` };
+    }
+
+    const metadata: Record<string, unknown> = { source: 'import', timestamp: new Date().toISOString() };
+    for (const field of mapping.metadata) {
+      const value = getField(raw.value, field);
+      if (value !== undefined) setField(metadata, field, value);
+    }
+
+    try {
+      const result = await IngestionService.ingest(content, metadata, {
+        title,
+        origin: options.origin ?? 'import',
+        strategy: options.strategy,
+      });
+      return { record, title, result };
+    } catch (error) {
+      return { record, title, error: error instanceof Error ? error.message : String(error) };
+    }
+  }
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function getField(record: Record<string, unknown>, path: string): unknown {
+  let value: unknown = record;
+  for (const key of path.split('.')) {
+    if (!isObject(value)) return undefined;
+    value = value[key];
+  }
+  return value;
+}
+
+function setField(record: Record<string, unknown>, path: string, value: unknown): void {
+  const keys = path.split('.');
+  let target = record;
+  for (const key of keys.slice(0, -1)) {
+    if (!isObject(target[key])) target[key] = {};
+    target = target[key] as Record<string, unknown>;
+  }
+  target[keys[keys.length - 1]] = value;
+}
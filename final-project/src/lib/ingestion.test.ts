@@ -0,0 +1,86 @@
+import type { PGlite } from '@electric-sql/pglite';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { fakeAICall } from '../test/ai-worker';
+import { openTestDatabase } from '../test/database';
+import { AIWorker } from './ai-worker';
+import { FixedSizeChunker } from './chunking';
+import { IngestionService } from './ingestion';
+
+vi.mock('./ai-worker', () => ({ AIWorker: { call: vi.fn() } }));
+
+let db: PGlite;
+
+beforeEach(async () => {
+  vi.mocked(AIWorker.call).mockReset().mockImplementation(fakeAICall);
+  db = await openTestDatabase();
+});
+
+afterEach(async () => {
+  await db.close();
+});
+
+// Texts sent to the embedding model so far
+function embedded(): string[] {
+  return vi.mocked(AIWorker.call).mock.calls.flatMap(([method, args]) => method === 'embed' ? (args as { texts: string[] }).texts : []);
+}
+
+async function storedChunks() {
+  const result = await db.query<{ chunk_index: number; start_offset: number; content: string }>(
+    'SELECT chunk_index, start_offset, content FROM chunks ORDER BY chunk_index'
+  );
+  return result.rows;
+}
+
+const strategy = new FixedSizeChunker({ size: 10, overlap: 0 });
+
+describe('IngestionService.ingest', () => {
+  it('stores a document once and reuses it when the same content comes again', async () => {
+    const first = await IngestionService.ingest('alpha one beta two', {}, { strategy });
+    const second = await IngestionService.ingest('alpha one beta two', { tag: 'again' }, { strategy });
+
+    expect(first).toMatchObject({ created: true, chunkCount: 2, inserted: [0, 1], skipped: [] });
+    expect(second).toMatchObject({ sourceId: first.sourceId, created: false, inserted: [], updated: [], skipped: [0, 1], deleted: [] });
+    expect(embedded()).toEqual(['alpha one', 'beta two']);
+    expect((await db.query(`SELECT metadata->>'tag' AS tag FROM sources`)).rows).toEqual([{ tag: 'again' }]);
+  });
+
+  it('stores a chunk repeated within a document once', async () => {
+    const result = await IngestionService.ingest('same text!same text!other one', {}, { strategy });
+
+    expect(result).toMatchObject({ inserted: [0, 2], skipped: [1] });
+    expect((await storedChunks()).map(c => c.content)).toEqual(['same text!', 'other one']);
+  });
+});
+
+describe('IngestionService.reingest', () => {
+  const [a, b, c, d] = ['aaaa aaaa.', 'bbbb bbbb.', 'cccc cccc.', 'dddd dddd.'];
+
+  it('embeds only new chunks, moves kept ones and deletes the rest', async () => {
+    const { sourceId } = await IngestionService.ingest(a + b + c, {}, { key: 'doc', strategy });
+    const result = await IngestionService.reingest('doc', a + c + d);
+
+    expect(result).toMatchObject({ sourceId, created: false, inserted: [2], updated: [1], skipped: [0], deleted: [1] });
+    expect(embedded()).toEqual([a, b, c, d]);
+    expect(await storedChunks()).toEqual([
+      { chunk_index: 0, start_offset: 0, content: a },
+      { chunk_index: 1, start_offset: 10, content: c },
+      { chunk_index: 2, start_offset: 20, content: d },
+    ]);
+    expect((await db.query('SELECT content FROM sources')).rows).toEqual([{ content: a + c + d }]);
+  });
+
+  it('ingests a key that is not stored yet', async () => {
+    const result = await IngestionService.reingest('new', a, {}, { strategy });
+
+    expect(result).toMatchObject({ created: true, inserted: [0] });
+    expect((await db.query('SELECT key FROM sources')).rows).toEqual([{ key: 'new' }]);
+  });
+
+  it('refuses content that another source already has', async () => {
+    await IngestionService.ingest(a, {}, { title: 'Original', strategy });
+    await IngestionService.ingest(b, {}, { key: 'doc', strategy });
+
+    await expect(IngestionService.reingest('doc', a)).rejects.toThrow('already stored as "Original"');
+    expect((await storedChunks()).map(chunk => chunk.content)).toEqual([a, b]);
+  });
+});
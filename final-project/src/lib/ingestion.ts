@@ -1,35 +1,335 @@
+import type { Transaction } from '@electric-sql/pglite';
 import { EmbeddingService } from './embeddings';
 import { VectorDatabase } from './pglite';
+import { createChunkingStrategy, FixedSizeChunker, type ChunkingOptions, type ChunkingStrategy, type ChunkingStrategyName, type TextChunk } from './chunking';
+import { sha256 } from './hash';
+import { ModelRegistry } from './models';
+import { parseDocument, type DocumentCodeBlock, type DocumentFormat, type DocumentSpan, type ParsedDocument } from './parsers';
 
 export interface DocumentChunk {
   content: string;
   metadata: Record<string, unknown>;
 }
 
+export interface IngestOptions {
+  // Defaults to the first line of the content
+  title?: string;
+  // Where the document came from, e.g. 'sandbox' or a file name
+  origin?: string;
+  // Stable identifier for finding the document again on re-ingestion, e.g. its file name
+  key?: string;
+  // How to read the content; Markdown and HTML are converted to clean text first
+  format?: DocumentFormat;
+  // Defaults to the original 250-character sliding window
+  strategy?: ChunkingStrategy;
+  batchSize?: number;
+}
+
+// Chunk indexes grouped by what the upsert did with them
+export interface ChunkReport {
+  inserted: number[];
+  // Already stored, but at a different position in the document
+  updated: number[];
+  // Already stored unchanged, or a repeat of an earlier chunk in the same document
+  skipped: number[];
+  // Stored chunks of the same document that the new chunking no longer produces
+  deleted: number[];
+}
+
+export interface IngestResult extends ChunkReport {
+  sourceId: number;
+  // False when a document with the same content hash was already stored
+  created: boolean;
+  chunkCount: number;
+}
+
+export interface ChunkRow {
+  chunkIndex: number;
+  startOffset: number;
+  endOffset: number;
+  content: string;
+  contentHash: string;
+  // Null for chunks that are already stored, which are never re-embedded
+  embedding: number[] | null;
+  embeddingModel: string;
+  metadata: Record<string, unknown>;
+}
+
+// What a source's metadata records about the markup of the document its text was parsed from
+type StoredStructure = Omit<ParsedDocument, 'text' | 'title'>;
+
+// Plain text has no structure worth recording
+function withStructure(metadata: Record<string, unknown>, document: ParsedDocument): Record<string, unknown> {
+  if (document.format === 'text') return metadata;
+  const { format, sections, links, codeBlocks, pages, paragraphs } = document;
+  return { ...metadata, structure: { format, sections, links, codeBlocks, pages, paragraphs } satisfies StoredStructure };
+}
+
+// First and last number of the pages or paragraphs that a chunk overlaps
+function spansWithin(spans: DocumentSpan[] | undefined, chunk: TextChunk): [number, number] | null {
+  const overlapping = spans?.filter(span => span.start < chunk.end && span.end > chunk.start) ?? [];
+  if (overlapping.length === 0) return null;
+  return [overlapping[0].number, overlapping[overlapping.length - 1].number];
+}
+
+// Keeps each multi-row INSERT well below Postgres' limit of 65535 bind parameters
+const ROWS_PER_INSERT = 500;
+const CHUNK_COLUMNS = 9;
+
 export class IngestionService {
-  static async ingest(content: string, metadata: Record<string, unknown> = {}): Promise<void> {
-    const db = await VectorDatabase.getInstance();
-    const chunks = this.chunkText(content);
-
-    for (const chunk of chunks) {
-      const embedding = await EmbeddingService.generate(chunk);
-      await db.query(
-        'INSERT INTO documents (content, embedding, metadata) VALUES ($1, $2, $3)',
-        [chunk, JSON.stringify(embedding), JSON.stringify(metadata)]
+  /**
+   * Stores a document as a source and its embedded chunks, all in a single
+   * transaction so a failure never leaves a partially ingested document behind.
+   * Documents are deduplicated by content hash: ingesting one that is already
+   * stored reconciles its chunks instead of storing them again, and only
+   * chunks that are not stored yet are embedded.
+   * @param content Raw content in `options.format`, or a document already parsed or extracted from a file.
+   */
+  static async ingest(content: string | ParsedDocument, metadata: Record<string, unknown> = {}, options: IngestOptions = {}): Promise<IngestResult> {
+    return VectorDatabase.withDatabase(async (db) => {
+      const strategy = options.strategy ?? new FixedSizeChunker();
+      const document = typeof content === 'string' ? parseDocument(content, options.format ?? 'text') : content;
+      const sourceMetadata = { ...metadata, chunking: { strategy: strategy.name, ...strategy.params } };
+      const hash = await sha256(document.text);
+
+      const stored = await db.query<{ content_hash: string }>(
+        'SELECT c.content_hash FROM chunks c JOIN sources s ON s.id = c.source_id WHERE s.hash = $1',
+        [hash]
+      );
+
+      // Embed everything before opening the transaction so it is only held for the writes
+      const rows = await this.prepareChunks(
+        document, sourceMetadata, strategy, options.batchSize, new Set(stored.rows.map(row => row.content_hash))
+      );
+
+      return db.transaction(async (tx) => {
+        const source = await tx.query<{ id: number; created: boolean }>(
+          `INSERT INTO sources (title, origin, key, hash, content, metadata) VALUES ($1, $2, $3, $4, $5, $6)
+           ON CONFLICT (hash) DO UPDATE SET metadata = EXCLUDED.metadata, key = COALESCE(sources.key, EXCLUDED.key)
+           RETURNING id, (xmax = 0) AS created`,
+          [
+            options.title ?? document.title ?? this.defaultTitle(document.text),
+            options.origin ?? 'sandbox',
+            options.key ?? null,
+            hash,
+            document.text,
+            JSON.stringify(withStructure(sourceMetadata, document)),
+          ]
+        );
+        const { id: sourceId, created } = source.rows[0];
+        const report = await this.upsertChunks(tx, sourceId, rows);
+        return { sourceId, created, chunkCount: rows.length, ...report };
+      });
+    });
+  }
+
+  /**
+   * Replaces the stored version of a document with new content. The new chunks
+   * are diffed against the stored ones by hash and position, so only new or
+   * changed chunks are embedded and chunks that no longer exist are deleted,
+   * all in one transaction. Without a strategy, the one recorded at ingest is
+   * reused, and likewise the format; `metadata` is merged over the stored metadata.
+   * A key that is not stored yet is ingested as a new document.
+   */
+  static async reingest(sourceKey: string, content: string | ParsedDocument, metadata: Record<string, unknown> = {}, options: IngestOptions = {}): Promise<IngestResult> {
+    return VectorDatabase.withDatabase(async (db) => {
+      const existing = await db.query<{ id: number; metadata: Record<string, unknown> }>(
+        'SELECT id, metadata FROM sources WHERE key = $1',
+        [sourceKey]
       );
+      if (existing.rows.length === 0) {
+        return this.ingest(content, metadata, { ...options, key: sourceKey });
+      }
+
+      const { id: sourceId, metadata: { structure, ...storedMetadata } } = existing.rows[0];
+      const format = options.format ?? (structure as StoredStructure | undefined)?.format ?? 'text';
+      const document = typeof content === 'string' ? parseDocument(content, format) : content;
+      const hash = await sha256(document.text);
+      const duplicate = await db.query<{ title: string }>('SELECT title FROM sources WHERE hash = $1 AND id <> $2', [hash, sourceId]);
+      if (duplicate.rows.length > 0) {
+        throw new Error(`The same content is already stored as "${duplicate.rows[0].title}"`);
+      }
+
+      const strategy = options.strategy ?? this.recordedStrategy(storedMetadata);
+      const sourceMetadata = { ...storedMetadata, ...metadata, chunking: { strategy: strategy.name, ...strategy.params } };
+      const stored = await db.query<{ content_hash: string }>('SELECT content_hash FROM chunks WHERE source_id = $1', [sourceId]);
+      const rows = await this.prepareChunks(
+        document, sourceMetadata, strategy, options.batchSize, new Set(stored.rows.map(row => row.content_hash))
+      );
+
+      return db.transaction(async (tx) => {
+        await tx.query(
+          `UPDATE sources SET content = $1, hash = $2, metadata = $3, title = COALESCE($4, title), origin = COALESCE($5, origin)
+           WHERE id = $6`,
+          [document.text, hash, JSON.stringify(withStructure(sourceMetadata, document)), options.title ?? null, options.origin ?? null, sourceId]
+        );
+        const report = await this.upsertChunks(tx, sourceId, rows);
+        return { sourceId, created: false, chunkCount: rows.length, ...report };
+      });
+    });
+  }
+
+  /**
+   * The chunking strategy recorded in a source's metadata at ingest, or the
+   * default fixed-size chunker for sources that predate the record.
+   */
+  static recordedStrategy(metadata: Record<string, unknown>): ChunkingStrategy {
+    const recorded = metadata.chunking as ({ strategy: ChunkingStrategyName } & ChunkingOptions) | undefined;
+    if (!recorded) return new FixedSizeChunker();
+    const { strategy, ...options } = recorded;
+    return createChunkingStrategy(strategy, options);
+  }
+
+  /**
+   * Rebuilds the parsed form of a stored source from its clean text and the
+   * structure recorded in its metadata.
+   */
+  static storedDocument(content: string, metadata: Record<string, unknown>): ParsedDocument {
+    const structure = metadata.structure as StoredStructure | undefined;
+    return structure ? { ...structure, text: content } : parseDocument(content, 'text');
+  }
+
+  /**
+   * Chunks and embeds a document. Every chunk carries the document's metadata,
+   * plus the heading path of its section, the links and code blocks it contains
+   * and the range of pages and paragraphs it spans.
+   * Sections are chunked separately so no chunk straddles two headings.
+   * @param storedHashes Content hashes of chunks that are already stored and do not need embeddings.
+   */
+  static async prepareChunks(
+    document: ParsedDocument,
+    metadata: Record<string, unknown>,
+    strategy: ChunkingStrategy,
+    batchSize?: number,
+    storedHashes: ReadonlySet<string> = new Set()
+  ): Promise<ChunkRow[]> {
+    const chunks: (TextChunk & { path: string[] })[] = [];
+    for (const section of document.sections) {
+      const sectionChunks = await strategy.chunk(document.text.slice(section.start, section.end));
+      for (const chunk of sectionChunks) {
+        chunks.push({ ...chunk, start: chunk.start + section.start, end: chunk.end + section.start, path: section.path });
+      }
     }
+    const hashes = await Promise.all(chunks.map(chunk => sha256(chunk.content)));
+    const model = await ModelRegistry.getActiveModel();
+
+    const pending = chunks.filter((_, index) => !storedHashes.has(hashes[index]));
+    const embeddings = await EmbeddingService.generateBatch(pending.map(c => c.content), batchSize, model);
+    const embeddingByChunk = new Map(pending.map((chunk, index) => [chunk, embeddings[index]]));
+
+    // A code block belongs to the chunk covering the spot it was taken out of
+    const codeBlocksByChunk = new Map<number, DocumentCodeBlock[]>();
+    for (const block of document.codeBlocks) {
+      let owner = 0;
+      while (owner + 1 < chunks.length && chunks[owner + 1].start <= block.offset) owner++;
+      codeBlocksByChunk.set(owner, [...(codeBlocksByChunk.get(owner) ?? []), block]);
+    }
+
+    return chunks.map((chunk, index) => {
+      const links = document.links.filter(link => link.offset >= chunk.start && link.offset < chunk.end);
+      const codeBlocks = codeBlocksByChunk.get(index);
+      const pages = spansWithin(document.pages, chunk);
+      const paragraphs = spansWithin(document.paragraphs, chunk);
+      return {
+        chunkIndex: index,
+        startOffset: chunk.start,
+        endOffset: chunk.end,
+        content: chunk.content,
+        contentHash: hashes[index],
+        embedding: embeddingByChunk.get(chunk) ?? null,
+        embeddingModel: model.id,
+        metadata: {
+          ...metadata,
+          ...(chunk.path.length > 0 && { sectionPath: chunk.path }),
+          ...(links.length > 0 && { links: links.map(({ text, href }) => ({ text, href })) }),
+          ...(codeBlocks && { codeBlocks: codeBlocks.map(({ language, code }) => ({ language, code })) }),
+          ...(pages && { pageStart: pages[0], pageEnd: pages[1] }),
+          ...(paragraphs && { paragraphStart: paragraphs[0], paragraphEnd: paragraphs[1] }),
+        },
+      };
+    });
   }
 
-  private static chunkText(text: string, size = 250, overlap = 40): string[] {
-    const chunks: string[] = [];
-    let start = 0;
+  /**
+   * Makes the stored chunks of a source match `rows`. Chunks are matched by
+   * content hash: new ones are inserted, moved ones get their position updated,
+   * unchanged ones are left alone and stored ones missing from `rows` are deleted.
+   * Metadata of matched chunks is always brought up to date.
+   */
+  static async upsertChunks(tx: Transaction, sourceId: number, rows: ChunkRow[]): Promise<ChunkReport> {
+    const report: ChunkReport = { inserted: [], updated: [], skipped: [], deleted: [] };
+
+    // The active model can change while a document is being embedded, e.g. when a re-embedding job finishes
+    const model = await ModelRegistry.readActiveModel(tx);
+    const stale = rows.find(row => row.embedding && row.embeddingModel !== model.id);
+    if (stale) {
+      throw new Error(`Chunks were embedded with ${stale.embeddingModel}, but the corpus now uses ${model.id}. Ingest the document again.`);
+    }
+    ModelRegistry.assertDimension(model, rows.flatMap(row => row.embedding ? [row.embedding] : []));
+
+    // A document can repeat a chunk verbatim; only its first occurrence is stored
+    const seen = new Set<string>();
+    const unique = rows.filter(row => {
+      if (seen.has(row.contentHash)) {
+        report.skipped.push(row.chunkIndex);
+        return false;
+      }
+      seen.add(row.contentHash);
+      return true;
+    });
+
+    const deleted = await tx.query<{ chunk_index: number }>(
+      'DELETE FROM chunks WHERE source_id = $1 AND NOT (content_hash = ANY($2)) RETURNING chunk_index',
+      [sourceId, Array.from(seen)]
+    );
+    report.deleted.push(...deleted.rows.map(row => row.chunk_index));
 
-    while (start < text.length) {
-      const end = Math.min(start + size, text.length);
-      chunks.push(text.slice(start, end));
-      start += size - overlap;
+    const stored = await tx.query<{ content_hash: string; chunk_index: number; start_offset: number; end_offset: number }>(
+      'SELECT content_hash, chunk_index, start_offset, end_offset FROM chunks WHERE source_id = $1',
+      [sourceId]
+    );
+    const storedByHash = new Map(stored.rows.map(row => [row.content_hash, row]));
+    for (const row of unique) {
+      const previous = storedByHash.get(row.contentHash);
+      if (!previous) report.inserted.push(row.chunkIndex);
+      else if (previous.chunk_index !== row.chunkIndex || previous.start_offset !== row.startOffset || previous.end_offset !== row.endOffset) report.updated.push(row.chunkIndex);
+      else report.skipped.push(row.chunkIndex);
     }
 
-    return chunks;
+    for (let i = 0; i < unique.length; i += ROWS_PER_INSERT) {
+      const batch = unique.slice(i, i + ROWS_PER_INSERT);
+      const placeholders = batch.map((_, r) => {
+        const params = Array.from({ length: CHUNK_COLUMNS }, (_, c) => `$${r * CHUNK_COLUMNS + c + 1}`);
+        return `(${params.join(', ')})`;
+      });
+      await tx.query(
+        `INSERT INTO chunks (source_id, chunk_index, start_offset, end_offset, content, content_hash, embedding, embedding_model, metadata)
+         VALUES ${placeholders.join(', ')}
+         ON CONFLICT (source_id, content_hash) DO UPDATE
+           SET chunk_index = EXCLUDED.chunk_index, start_offset = EXCLUDED.start_offset,
+               end_offset = EXCLUDED.end_offset, metadata = EXCLUDED.metadata
+           WHERE (chunks.chunk_index, chunks.start_offset, chunks.end_offset, chunks.metadata)
+             IS DISTINCT FROM (EXCLUDED.chunk_index, EXCLUDED.start_offset, EXCLUDED.end_offset, EXCLUDED.metadata)`,
+        batch.flatMap(row => [
+          sourceId,
+          row.chunkIndex,
+          row.startOffset,
+          row.endOffset,
+          row.content,
+          row.contentHash,
+          row.embedding && JSON.stringify(row.embedding),
+          row.embeddingModel,
+          JSON.stringify(row.metadata),
+        ])
+      );
+    }
+
+    report.skipped.sort((a, b) => a - b);
+    return report;
+  }
+
+  private static defaultTitle(content: string): string {
+    const firstLine = content.trim().split('\n')[0].replace(/^#+\s*/, '');
+    return firstLine.length > 80 ? `${firstLine.slice(0, 77)}...` : firstLine;
   }
 }
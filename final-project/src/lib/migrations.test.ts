@@ -0,0 +1,147 @@
+import type { PGlite } from '@electric-sql/pglite';
+import { afterEach, describe, expect, it } from 'vitest';
+import { openTestDatabase } from '../test/database';
+import { sha256 } from './hash';
+import { MIGRATIONS, MigrationError, SchemaMigrator, type Migration } from './migrations';
+
+let db: PGlite;
+
+afterEach(async () => {
+  await db.close();
+});
+
+// The chunker before sources existed: 250 character windows every 210 characters
+function legacyChunks(text: string): string[] {
+  const chunks: string[] = [];
+  for (let start = 0; start < text.length; start += 210) chunks.push(text.slice(start, start + 250));
+  return chunks;
+}
+
+async function insertLegacy(contents: string[], timestamp: string) {
+  for (const content of contents) {
+    await db.query('INSERT INTO documents (content, metadata) VALUES ($1, $2)', [content, { timestamp, source: 'sandbox' }]);
+  }
+}
+
+describe('SchemaMigrator.migrate', () => {
+  it('applies every migration once', async () => {
+    db = await openTestDatabase(0);
+
+    expect(await SchemaMigrator.migrate(db)).toEqual(MIGRATIONS.map(m => m.version));
+    expect(await SchemaMigrator.migrate(db)).toEqual([]);
+    expect(await SchemaMigrator.currentVersion(db)).toBe(MIGRATIONS[MIGRATIONS.length - 1].version);
+  });
+
+  it('rolls back a failed migration and stops there', async () => {
+    db = await openTestDatabase();
+    const version = await SchemaMigrator.currentVersion(db);
+    const failing: Migration[] = [
+      {
+        version: version + 1,
+        name: 'half_done',
+        up: async (tx) => {
+          await tx.exec('CREATE TABLE half_done (id INTEGER)');
+          await tx.exec('SELECT missing_column FROM half_done');
+        },
+      },
+      { version: version + 2, name: 'never_run', up: async () => {} },
+    ];
+
+    const error = await SchemaMigrator.migrate(db, failing).catch(e => e);
+    expect(error).toBeInstanceOf(MigrationError);
+    expect(error).toMatchObject({ version: version + 1, migration: 'half_done' });
+    expect(await SchemaMigrator.currentVersion(db)).toBe(version);
+    expect((await db.query(`SELECT to_regclass('half_done') AS name`)).rows).toEqual([{ name: null }]);
+  });
+});
+
+describe('migration 2 (migrate_legacy_documents)', () => {
+  it('reassembles legacy documents without the chunk overlap', async () => {
+    db = await openTestDatabase(0);
+    await db.exec(`
+      CREATE TABLE documents (
+        id SERIAL PRIMARY KEY,
+        content TEXT NOT NULL,
+        embedding vector(384),
+        metadata JSONB DEFAULT '{}',
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+      )
+    `);
+    const alphabet = 'abcdefghijklmnopqrstuvwxyz '.repeat(40);
+    // Long enough for several windows, one ending inside the overlap, and a single window
+    const texts = [alphabet.slice(0, 700), alphabet.slice(0, 440), alphabet.slice(0, 100)];
+    for (const [index, text] of texts.entries()) await insertLegacy(legacyChunks(text), `t${index}`);
+    await insertLegacy(['First note.', 'Second note.'], 'notes');
+
+    await SchemaMigrator.migrate(db);
+
+    const sources = await db.query<{ id: number; content: string; origin: string; metadata: Record<string, unknown> }>(
+      'SELECT id, content, origin, metadata FROM sources ORDER BY length(content) DESC'
+    );
+    expect(sources.rows.map(s => [s.content, s.origin, s.metadata.rechunkable])).toEqual([
+      [texts[0], 'sandbox', undefined],
+      [texts[1], 'sandbox', undefined],
+      [texts[2], 'sandbox', undefined],
+      // Not the old layout, so the chunks are joined with newlines
+      ['First note.\nSecond note.', 'sandbox', false],
+    ]);
+
+    // Every chunk's offsets point at its text in the reassembled source
+    const content = new Map(sources.rows.map(s => [s.id, s.content]));
+    const chunks = await db.query<{ source_id: number; start_offset: number; end_offset: number; content: string }>(
+      'SELECT source_id, start_offset, end_offset, content FROM chunks ORDER BY id'
+    );
+    expect(chunks.rows).toHaveLength(4 + 3 + 1 + 2);
+    for (const chunk of chunks.rows) {
+      expect(content.get(chunk.source_id)!.slice(chunk.start_offset, chunk.end_offset)).toBe(chunk.content);
+    }
+    expect((await db.query(`SELECT to_regclass('documents') AS name`)).rows).toEqual([{ name: null }]);
+  });
+});
+
+describe('migration 4 (add_content_hash_uniqueness)', () => {
+  it('keeps the oldest copy of duplicate sources and chunks', async () => {
+    db = await openTestDatabase(3);
+    await db.exec(`
+      INSERT INTO sources (id, title, hash, content) VALUES (1, 'First', 'h1', 'Same'), (2, 'Copy', 'h1', 'Same'), (3, 'Other', 'h2', 'Other');
+      INSERT INTO chunks (source_id, chunk_index, start_offset, end_offset, content) VALUES
+        (1, 0, 0, 4, 'Same'), (2, 0, 0, 4, 'Same'),
+        (3, 0, 0, 5, 'Other'), (3, 1, 0, 5, 'Other'), (3, 2, 6, 10, 'More');
+    `);
+
+    await SchemaMigrator.migrate(db);
+
+    expect((await db.query('SELECT id, title FROM sources ORDER BY id')).rows).toEqual([
+      { id: 1, title: 'First' },
+      { id: 3, title: 'Other' },
+    ]);
+    expect((await db.query('SELECT source_id, chunk_index, content_hash FROM chunks ORDER BY id')).rows).toEqual([
+      { source_id: 1, chunk_index: 0, content_hash: await sha256('Same') },
+      { source_id: 3, chunk_index: 0, content_hash: await sha256('Other') },
+      { source_id: 3, chunk_index: 2, content_hash: await sha256('More') },
+    ]);
+    await expect(db.exec(`INSERT INTO sources (title, hash, content) VALUES ('Again', 'h2', 'Other')`)).rejects.toThrow('duplicate key value');
+  });
+});
+
+describe('migration 5 (add_source_keys)', () => {
+  it('keys the newest upload of each file name', async () => {
+    db = await openTestDatabase(4);
+    await db.exec(`
+      INSERT INTO sources (id, title, origin, hash, content) VALUES
+        (1, 'notes.md', 'upload', 'h1', 'Old notes'),
+        (2, 'notes.md', 'upload', 'h2', 'New notes'),
+        (3, 'plan.md', 'upload', 'h3', 'Plan'),
+        (4, 'Typed in', 'sandbox', 'h4', 'Typed in');
+    `);
+
+    await SchemaMigrator.migrate(db);
+
+    expect((await db.query('SELECT id, key FROM sources ORDER BY id')).rows).toEqual([
+      { id: 1, key: null },
+      { id: 2, key: 'notes.md' },
+      { id: 3, key: 'plan.md' },
+      { id: 4, key: null },
+    ]);
+  });
+});
@@ -0,0 +1,288 @@
+import type { PGlite, Transaction } from '@electric-sql/pglite';
+
+export interface Migration {
+  version: number;
+  name: string;
+  // Must be idempotent: databases created before migrations existed may already have the schema
+  up: (tx: Transaction) => Promise<void>;
+}
+
+export class MigrationError extends Error {
+  readonly version: number;
+  readonly migration: string;
+
+  constructor(migration: Migration, cause: unknown) {
+    super(`Migration ${migration.version} (${migration.name}) failed: ${cause instanceof Error ? cause.message : String(cause)}`, { cause });
+    this.name = 'MigrationError';
+    this.version = migration.version;
+    this.migration = migration.name;
+  }
+}
+
+/**
+ * Ordered schema migrations. Append new steps at the end with the next version
+ * number; never edit a migration that has already shipped.
+ */
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    name: 'create_sources_and_chunks',
+    up: async (tx) => {
+      // One row per ingested document, with its chunks hanging off it
+      await tx.exec(`
+        CREATE TABLE IF NOT EXISTS sources (
+          id SERIAL PRIMARY KEY,
+          title TEXT NOT NULL,
+          origin TEXT NOT NULL DEFAULT 'sandbox',
+          hash TEXT NOT NULL,
+          content TEXT NOT NULL,
+          metadata JSONB DEFAULT '{}',
+          created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+        );
+
+        CREATE TABLE IF NOT EXISTS chunks (
+          id SERIAL PRIMARY KEY,
+          source_id INTEGER NOT NULL REFERENCES sources(id) ON DELETE CASCADE,
+          chunk_index INTEGER NOT NULL,
+          start_offset INTEGER NOT NULL,
+          end_offset INTEGER NOT NULL,
+          content TEXT NOT NULL,
+          embedding vector(384),
+          metadata JSONB DEFAULT '{}',
+          created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+        );
+
+        CREATE INDEX IF NOT EXISTS chunks_source_id_idx ON chunks (source_id, chunk_index);
+      `);
+    },
+  },
+  {
+    version: 2,
+    name: 'migrate_legacy_documents',
+    up: async (tx) => {
+      // Moves rows from the old flat `documents` table into `sources`/`chunks`.
+      // Chunks that were ingested together share a timestamp and become one source.
+      // The old chunker cut 250 character windows every 210 characters, so when a
+      // group still has that layout its content is reassembled without the 40
+      // overlapping characters, and each chunk's offset follows from its index.
+      // Any other group is joined with newlines, which repeats text, so the
+      // source is marked as not re-chunkable.
+      const legacy = await tx.query<{ exists: boolean }>(`SELECT to_regclass('documents') IS NOT NULL AS exists`);
+      if (!legacy.rows[0].exists) return;
+
+      await tx.exec(`
+        CREATE TEMP TABLE legacy_chunks ON COMMIT DROP AS
+        SELECT
+          d.*,
+          COALESCE(d.metadata->>'timestamp', d.id::text) AS grp,
+          (row_number() OVER w) - 1 AS chunk_index,
+          lag(d.content) OVER w AS previous,
+          sum(length(d.content) + 1) OVER w - length(d.content) - 1 AS joined_offset
+        FROM documents d
+        WINDOW w AS (PARTITION BY COALESCE(d.metadata->>'timestamp', d.id::text) ORDER BY d.id);
+
+        CREATE TEMP TABLE legacy_sources ON COMMIT DROP AS
+        SELECT
+          grp,
+          nextval('sources_id_seq') AS source_id,
+          -- Every chunk starts with the last 40 characters of the one before, which is
+          -- full length unless the text ended inside the overlap
+          bool_and(previous IS NULL OR (
+            starts_with(substr(previous, 211), left(content, 40))
+            AND (length(previous) = 250 OR substr(previous, 211) = content)
+          )) AS fixed_size
+        FROM legacy_chunks
+        GROUP BY grp;
+
+        CREATE TEMP TABLE legacy_content ON COMMIT DROP AS
+        SELECT
+          s.source_id,
+          CASE WHEN s.fixed_size
+            THEN string_agg(CASE WHEN c.chunk_index = 0 THEN c.content ELSE substr(c.content, 41) END, '' ORDER BY c.id)
+            ELSE string_agg(c.content, E'\\n' ORDER BY c.id)
+          END AS content
+        FROM legacy_chunks c JOIN legacy_sources s USING (grp)
+        GROUP BY s.source_id, s.fixed_size;
+
+        INSERT INTO sources (id, title, origin, hash, content, metadata, created_at)
+        SELECT
+          s.source_id,
+          left(split_part(btrim((array_agg(c.content ORDER BY c.id))[1]), E'\\n', 1), 80),
+          COALESCE(min(c.metadata->>'source'), 'legacy'),
+          encode(sha256(convert_to(min(l.content), 'UTF8')), 'hex'),
+          min(l.content),
+          ((array_agg(c.metadata ORDER BY c.id))[1] - 'chunk_index')
+            || CASE WHEN s.fixed_size THEN '{}' ELSE '{"rechunkable": false}' END::jsonb,
+          min(c.created_at)
+        FROM legacy_chunks c JOIN legacy_sources s USING (grp) JOIN legacy_content l USING (source_id)
+        GROUP BY s.source_id, s.fixed_size;
+
+        INSERT INTO chunks (source_id, chunk_index, start_offset, end_offset, content, embedding, metadata, created_at)
+        SELECT s.source_id, c.chunk_index, o.start_offset, o.start_offset + length(c.content), c.content, c.embedding, c.metadata - 'chunk_index', c.created_at
+        FROM legacy_chunks c
+        JOIN legacy_sources s USING (grp),
+        LATERAL (SELECT CASE WHEN s.fixed_size THEN c.chunk_index * 210 ELSE c.joined_offset END AS start_offset) o;
+
+        DROP TABLE documents;
+      `);
+    },
+  },
+  {
+    version: 3,
+    name: 'add_chunks_full_text_search',
+    up: async (tx) => {
+      // A generated column keeps the lexical index in sync with every insert and update
+      await tx.exec(`
+        ALTER TABLE chunks ADD COLUMN IF NOT EXISTS content_tsv tsvector
+          GENERATED ALWAYS AS (to_tsvector('english', content)) STORED;
+
+        CREATE INDEX IF NOT EXISTS chunks_content_tsv_idx ON chunks USING gin (content_tsv);
+      `);
+    },
+  },
+  {
+    version: 4,
+    name: 'add_content_hash_uniqueness',
+    up: async (tx) => {
+      // Duplicates stored before deduplication existed keep only their oldest copy
+      await tx.exec(`
+        DELETE FROM sources s USING sources d WHERE s.hash = d.hash AND s.id > d.id;
+        CREATE UNIQUE INDEX IF NOT EXISTS sources_hash_key ON sources (hash);
+
+        ALTER TABLE chunks ADD COLUMN IF NOT EXISTS content_hash TEXT;
+        UPDATE chunks SET content_hash = encode(sha256(convert_to(content, 'UTF8')), 'hex') WHERE content_hash IS NULL;
+        ALTER TABLE chunks ALTER COLUMN content_hash SET NOT NULL;
+
+        DELETE FROM chunks c USING chunks d
+        WHERE c.source_id = d.source_id AND c.content_hash = d.content_hash AND c.id > d.id;
+        CREATE UNIQUE INDEX IF NOT EXISTS chunks_source_content_hash_key ON chunks (source_id, content_hash);
+      `);
+    },
+  },
+  {
+    version: 5,
+    name: 'add_source_keys',
+    up: async (tx) => {
+      // Uploads were titled with their file name. Earlier uploads of the same
+      // file could only be appended, so the newest one becomes the keyed version.
+      await tx.exec(`
+        ALTER TABLE sources ADD COLUMN IF NOT EXISTS key TEXT;
+        CREATE UNIQUE INDEX IF NOT EXISTS sources_key_key ON sources (key);
+
+        UPDATE sources s SET key = s.title
+        WHERE s.key IS NULL AND s.origin = 'upload'
+          AND s.id = (SELECT max(d.id) FROM sources d WHERE d.origin = 'upload' AND d.title = s.title)
+          AND NOT EXISTS (SELECT 1 FROM sources k WHERE k.key = s.title);
+      `);
+    },
+  },
+  {
+    version: 6,
+    name: 'track_embedding_models',
+    up: async (tx) => {
+      // Every existing embedding came from the original MiniLM model. The next_*
+      // columns stage embeddings from another model while the corpus is re-embedded.
+      await tx.exec(`
+        CREATE TABLE IF NOT EXISTS settings (
+          key TEXT PRIMARY KEY,
+          value TEXT NOT NULL
+        );
+        INSERT INTO settings (key, value) VALUES ('embedding_model', 'Xenova/all-MiniLM-L6-v2')
+        ON CONFLICT (key) DO NOTHING;
+
+        ALTER TABLE chunks ADD COLUMN IF NOT EXISTS embedding_model TEXT;
+        UPDATE chunks SET embedding_model = 'Xenova/all-MiniLM-L6-v2' WHERE embedding_model IS NULL;
+        ALTER TABLE chunks ALTER COLUMN embedding_model SET NOT NULL;
+
+        ALTER TABLE chunks ADD COLUMN IF NOT EXISTS next_embedding vector;
+        ALTER TABLE chunks ADD COLUMN IF NOT EXISTS next_embedding_model TEXT;
+      `);
+    },
+  },
+  {
+    version: 7,
+    name: 'create_embedding_cache',
+    up: async (tx) => {
+      // Untyped vectors, since entries from several models can be cached at once
+      await tx.exec(`
+        CREATE TABLE IF NOT EXISTS embedding_cache (
+          model TEXT NOT NULL,
+          text_hash TEXT NOT NULL,
+          embedding vector NOT NULL,
+          last_used_at TIMESTAMP NOT NULL DEFAULT clock_timestamp(),
+          PRIMARY KEY (model, text_hash)
+        );
+
+        CREATE INDEX IF NOT EXISTS embedding_cache_last_used_at_idx ON embedding_cache (last_used_at);
+      `);
+    },
+  },
+  {
+    version: 8,
+    name: 'create_conversations',
+    up: async (tx) => {
+      await tx.exec(`
+        CREATE TABLE IF NOT EXISTS conversations (
+          id SERIAL PRIMARY KEY,
+          title TEXT NOT NULL,
+          created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+          updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+        );
+
+        CREATE TABLE IF NOT EXISTS conversation_messages (
+          id SERIAL PRIMARY KEY,
+          conversation_id INTEGER NOT NULL REFERENCES conversations(id) ON DELETE CASCADE,
+          role TEXT NOT NULL CHECK (role IN ('user', 'assistant')),
+          content TEXT NOT NULL,
+          metadata JSONB NOT NULL DEFAULT '{}',
+          created_at TIMESTAMP DEFAULT clock_timestamp()
+        );
+
+        CREATE INDEX IF NOT EXISTS conversation_messages_conversation_id_idx ON conversation_messages (conversation_id, id);
+      `);
+    },
+  },
+];
+
+export class SchemaMigrator {
+  /**
+   * Applies every migration newer than the database's current version, each in
+   * its own transaction together with its `schema_migrations` bookkeeping row.
+   * @returns The versions that were applied.
+   * @throws MigrationError for the first migration that fails; later ones are not attempted.
+   */
+  static async migrate(db: PGlite, migrations: Migration[] = MIGRATIONS): Promise<number[]> {
+    await db.exec(`
+      CREATE TABLE IF NOT EXISTS schema_migrations (
+        version INTEGER PRIMARY KEY,
+        name TEXT NOT NULL,
+        applied_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+      )
+    `);
+
+    const current = await this.currentVersion(db);
+    const pending = migrations
+      .filter(m => m.version > current)
+      .sort((a, b) => a.version - b.version);
+
+    const applied: number[] = [];
+    for (const migration of pending) {
+      try {
+        await db.transaction(async (tx) => {
+          await migration.up(tx);
+          await tx.query('INSERT INTO schema_migrations (version, name) VALUES ($1, $2)', [migration.version, migration.name]);
+        });
+      } catch (error) {
+        throw new MigrationError(migration, error);
+      }
+      applied.push(migration.version);
+    }
+
+    return applied;
+  }
+
+  static async currentVersion(db: PGlite): Promise<number> {
+    const result = await db.query<{ version: number | null }>('SELECT max(version) AS version FROM schema_migrations');
+    return result.rows[0].version ?? 0;
+  }
+}
@@ -0,0 +1,144 @@
+import type { Transaction } from '@electric-sql/pglite';
+import { VectorDatabase } from './pglite';
+import { CollectionService } from './collections';
+import type { EmbeddingPooling } from './pipelines';
+
+export interface EmbeddingModel {
+  id: string;
+  label: string;
+  dimension: number;
+  pooling: EmbeddingPooling;
+  // Some models are trained with instructions that tell queries and passages apart
+  queryPrefix: string;
+  passagePrefix: string;
+}
+
+export const EMBEDDING_MODELS: EmbeddingModel[] = [
+  {
+    id: 'Xenova/all-MiniLM-L6-v2',
+    label: 'MiniLM L6 v2',
+    dimension: 384,
+    pooling: 'mean',
+    queryPrefix: '',
+    passagePrefix: '',
+  },
+  {
+    id: 'Xenova/bge-small-en-v1.5',
+    label: 'BGE Small v1.5',
+    dimension: 384,
+    pooling: 'cls',
+    queryPrefix: 'Represent this sentence for searching relevant passages: ',
+    passagePrefix: '',
+  },
+  {
+    id: 'Xenova/e5-small-v2',
+    label: 'E5 Small v2',
+    dimension: 384,
+    pooling: 'mean',
+    queryPrefix: 'query: ',
+    passagePrefix: 'passage: ',
+  },
+  {
+    id: 'Xenova/all-mpnet-base-v2',
+    label: 'MPNet Base v2',
+    dimension: 768,
+    pooling: 'mean',
+    queryPrefix: '',
+    passagePrefix: '',
+  },
+];
+
+// The model every database started with, before models could be switched
+export const DEFAULT_EMBEDDING_MODEL = EMBEDDING_MODELS[0];
+
+export class EmbeddingDimensionError extends Error {
+  readonly expected: number;
+  readonly actual: number;
+
+  constructor(model: EmbeddingModel, actual: number) {
+    super(`${model.id} should produce ${model.dimension}-dimensional embeddings, got ${actual}`);
+    this.name = 'EmbeddingDimensionError';
+    this.expected = model.dimension;
+    this.actual = actual;
+  }
+}
+
+export class ModelRegistry {
+  // The active model rarely changes, so it is read from each collection's database once
+  private static active = new Map<string, Promise<EmbeddingModel>>();
+
+  static get(id: string): EmbeddingModel {
+    const model = EMBEDDING_MODELS.find(m => m.id === id);
+    if (!model) throw new Error(`Unknown embedding model: ${id}`);
+    return model;
+  }
+
+  /**
+   * The model that produced every embedding currently stored in `chunks` of
+   * the active collection. Queries must be embedded with the same model to be comparable.
+   */
+  static getActiveModel(): Promise<EmbeddingModel> {
+    const collectionId = CollectionService.getActive().id;
+    let active = this.active.get(collectionId);
+    if (!active) {
+      active = this.readSetting('embedding_model')
+        .then(id => this.get(id ?? DEFAULT_EMBEDDING_MODEL.id))
+        .catch((error) => {
+          this.active.delete(collectionId);
+          throw error;
+        });
+      this.active.set(collectionId, active);
+    }
+    return active;
+  }
+
+  /**
+   * Records a new active model. Only the re-embedding job calls this, in the
+   * same transaction that swaps the stored embeddings over.
+   */
+  static async setActiveModel(tx: Transaction, model: EmbeddingModel): Promise<void> {
+    await this.writeSetting(tx, 'embedding_model', model.id);
+    // Re-read on next use, which waits for the transaction to commit or roll back
+    this.active.delete(CollectionService.getActive().id);
+  }
+
+  /**
+   * @throws EmbeddingDimensionError if an embedding cannot have come from `model`.
+   */
+  static assertDimension(model: EmbeddingModel, embeddings: number[][]): void {
+    for (const embedding of embeddings) {
+      if (embedding.length !== model.dimension) throw new EmbeddingDimensionError(model, embedding.length);
+    }
+  }
+
+  /**
+   * The active model as recorded inside a transaction, bypassing the cache.
+   * Code holding a transaction must use this: reading outside of it waits for
+   * the transaction to end.
+   */
+  static async readActiveModel(tx: Transaction): Promise<EmbeddingModel> {
+    return this.get(await this.readSetting('embedding_model', tx) ?? DEFAULT_EMBEDDING_MODEL.id);
+  }
+
+  /**
+   * @param tx Reads within a transaction instead of on its own.
+   */
+  static async readSetting(key: string, tx?: Transaction): Promise<string | null> {
+    const sql = 'SELECT value FROM settings WHERE key = $1';
+    const result = tx
+      ? await tx.query<{ value: string }>(sql, [key])
+      : await VectorDatabase.withDatabase((db) => db.query<{ value: string }>(sql, [key]));
+    return result.rows[0]?.value ?? null;
+  }
+
+  static async writeSetting(tx: Transaction, key: string, value: string | null): Promise<void> {
+    if (value === null) {
+      await tx.query('DELETE FROM settings WHERE key = $1', [key]);
+    } else {
+      await tx.query(
+        'INSERT INTO settings (key, value) VALUES ($1, $2) ON CONFLICT (key) DO UPDATE SET value = EXCLUDED.value',
+        [key, value]
+      );
+    }
+  }
+}
@@ -0,0 +1,376 @@
+export type DocumentFormat = 'text' | 'markdown' | 'html' | 'pdf' | 'docx';
+
+export interface DocumentSection {
+  // Heading hierarchy leading to the section, outermost first
+  path: string[];
+  // Character offsets of the section within the document text
+  start: number;
+  end: number;
+}
+
+export interface DocumentLink {
+  // Position of the link text within the document text
+  offset: number;
+  text: string;
+  href: string;
+}
+
+// A numbered stretch of the document text, such as a page or a paragraph
+export interface DocumentSpan {
+  number: number;
+  start: number;
+  end: number;
+}
+
+export interface DocumentCodeBlock {
+  // Position in the document text where the block was taken out
+  offset: number;
+  language: string;
+  code: string;
+}
+
+/**
+ * A document reduced to clean text for embedding. Markup is dropped, while the
+ * structure it carried is kept alongside the text with offsets into it.
+ */
+export interface ParsedDocument {
+  format: DocumentFormat;
+  title?: string;
+  text: string;
+  sections: DocumentSection[];
+  links: DocumentLink[];
+  codeBlocks: DocumentCodeBlock[];
+  // Only for formats with a page layout or numbered paragraphs, i.e. PDF and Word
+  pages?: DocumentSpan[];
+  paragraphs?: DocumentSpan[];
+}
+
+const FORMATS_BY_EXTENSION: Record<string, DocumentFormat> = {
+  md: 'markdown',
+  markdown: 'markdown',
+  mdx: 'markdown',
+  html: 'html',
+  htm: 'html',
+  pdf: 'pdf',
+  docx: 'docx',
+};
+
+// Binary formats that cannot be parsed from a string
+export const BINARY_FORMATS: ReadonlySet<DocumentFormat> = new Set(['pdf', 'docx']);
+
+export function detectFormat(fileName: string): DocumentFormat {
+  const extension = fileName.split('.').pop()?.toLowerCase() ?? '';
+  return FORMATS_BY_EXTENSION[extension] ?? 'text';
+}
+
+export function parseDocument(source: string, format: DocumentFormat): ParsedDocument {
+  switch (format) {
+    case 'markdown':
+      return parseMarkdown(source);
+    case 'html':
+      return parseHtml(source);
+    case 'text':
+      // Plain text is stored as is, so offsets keep pointing into the original
+      return { format, text: source, sections: [{ path: [], start: 0, end: source.length }], links: [], codeBlocks: [] };
+    case 'pdf':
+    case 'docx':
+      throw new Error(`${format.toUpperCase()} documents have to be extracted from the original file`);
+  }
+}
+
+/**
+ * Accumulates clean text while tracking sections, links, code blocks and,
+ * for paged formats, pages and paragraphs.
+ */
+export class DocumentBuilder {
+  private text = '';
+  private sections: DocumentSection[] = [];
+  private links: DocumentLink[] = [];
+  private codeBlocks: DocumentCodeBlock[] = [];
+  private pages: DocumentSpan[] = [];
+  private paragraphs: DocumentSpan[] = [];
+  private headings: { level: number; text: string }[] = [];
+  private sectionStart = 0;
+  title?: string;
+
+  inline(value: string): void {
+    // No leading whitespace at the start of a line
+    if (this.text === '' || this.text.endsWith('\n')) value = value.trimStart();
+    this.text += value;
+  }
+
+  link(text: string, href: string): void {
+    this.links.push({ offset: this.text.length, text, href });
+    this.inline(text);
+  }
+
+  lineBreak(): void {
+    // Never collapses a paragraph break that is already there
+    if (this.text.endsWith('\n')) return;
+    this.text = this.text.trimEnd();
+    if (this.text !== '') this.text += '\n';
+  }
+
+  paragraphBreak(): void {
+    this.text = this.text.trimEnd();
+    if (this.text !== '') this.text += '\n\n';
+  }
+
+  /**
+   * Appends a numbered paragraph. Numbers run through the whole document and
+   * do not count headings.
+   */
+  paragraph(text: string): void {
+    this.paragraphBreak();
+    const start = this.text.length;
+    this.inline(text);
+    this.text = this.text.trimEnd();
+    if (this.text.length > start) {
+      this.paragraphs.push({ number: this.paragraphs.length + 1, start, end: this.text.length });
+    }
+  }
+
+  // Everything appended from here on is on the next page
+  page(): void {
+    this.closePage();
+    this.paragraphBreak();
+    this.pages.push({ number: this.pages.length + 1, start: this.text.length, end: this.text.length });
+  }
+
+  heading(level: number, text: string): void {
+    this.closeSection();
+    this.title ??= level === 1 ? text : undefined;
+
+    while (this.headings.length > 0 && this.headings[this.headings.length - 1].level >= level) {
+      this.headings.pop();
+    }
+    this.headings.push({ level, text });
+
+    // The heading text opens its section, so it is embedded with the section's first chunk
+    this.paragraphBreak();
+    this.sectionStart = this.text.length;
+    this.inline(text);
+    this.paragraphBreak();
+  }
+
+  codeBlock(language: string, code: string): void {
+    this.paragraphBreak();
+    this.codeBlocks.push({ offset: this.text.length, language, code: code.replace(/\n+$/, '') });
+  }
+
+  finish(format: DocumentFormat): ParsedDocument {
+    this.text = this.text.trimEnd();
+    this.closeSection();
+    this.closePage();
+    return {
+      format,
+      title: this.title,
+      text: this.text,
+      sections: this.sections,
+      links: this.links,
+      codeBlocks: this.codeBlocks,
+      ...(this.pages.length > 0 && { pages: this.pages }),
+      ...(this.paragraphs.length > 0 && { paragraphs: this.paragraphs }),
+    };
+  }
+
+  private closePage(): void {
+    const current = this.pages[this.pages.length - 1];
+    if (current) current.end = Math.max(current.start, this.text.trimEnd().length);
+  }
+
+  private closeSection(): void {
+    const end = this.text.trimEnd().length;
+    if (end > this.sectionStart) {
+      this.sections.push({ path: this.headings.map(h => h.text), start: this.sectionStart, end });
+    }
+    this.sectionStart = end;
+  }
+}
+
+const FENCE = /^ {0,3}(`{3,}|~{3,})\s*([\w+#.-]*)/;
+const ATX_HEADING = /^ {0,3}(#{1,6})\s+(.*?)(?:\s+#+)?\s*$/;
+const SETEXT_UNDERLINE = /^ {0,3}(=+|-+)\s*$/;
+const THEMATIC_BREAK = /^ {0,3}([-*_])(?:\s*\1){2,}\s*$/;
+const REFERENCE_DEFINITION = /^ {0,3}\[([^\]]+)\]:\s*<?(\S+?)>?(?:\s+["'(].*["')])?\s*$/;
+const TABLE_DIVIDER = /^\s*\|?\s*:?-+:?\s*(\|\s*:?-+:?\s*)*\|?\s*$/;
+const LIST_MARKER = /^\s*(?:[-*+]|\d+[.)])\s+(?:\[[ xX]\]\s+)?/;
+const BLOCKQUOTE = /^\s*(?:>\s?)+/;
+
+// Links, images, autolinks and code spans, which are resolved before emphasis is stripped
+const INLINE_TOKEN = /!\[([^\]]*)\]\(([^)\s]+)(?:\s+"[^"]*")?\)|\[([^\]]+)\]\(([^)\s]+)(?:\s+"[^"]*")?\)|\[([^\]]+)\]\[([^\]]*)\]|<(https?:\/\/[^>\s]+)>|(`+)(.+?)\8/g;
+
+function stripEmphasis(text: string): string {
+  return text
+    .replace(/<\/?[a-zA-Z][^>]*>/g, '')
+    .replace(/(\*\*|__|~~)(?=\S)(.+?)(?<=\S)\1/g, '$2')
+    .replace(/(\*|_)(?=\S)(.+?)(?<=\S)\1(?!\w)/g, '$2')
+    .replace(/\*\*|~~/g, '')
+    .replace(/\\([\\`*_{}[\]()#+\-.!>~|])/g, '$1');
+}
+
+function appendMarkdownInline(builder: DocumentBuilder, line: string, references: Map<string, string>): void {
+  let last = 0;
+  for (const match of line.matchAll(INLINE_TOKEN)) {
+    builder.inline(stripEmphasis(line.slice(last, match.index)));
+    last = match.index + match[0].length;
+
+    const [, imageAlt, imageSrc, linkText, linkHref, refText, refLabel, autolink, , code] = match;
+    if (imageSrc !== undefined) {
+      if (imageAlt) builder.link(stripEmphasis(imageAlt), imageSrc);
+    } else if (linkHref !== undefined) {
+      builder.link(stripEmphasis(linkText), linkHref);
+    } else if (refText !== undefined) {
+      const href = references.get((refLabel || refText).toLowerCase());
+      if (href) builder.link(stripEmphasis(refText), href);
+      else builder.inline(match[0]);
+    } else if (autolink !== undefined) {
+      builder.link(autolink, autolink);
+    } else {
+      builder.inline(code.trim());
+    }
+  }
+  builder.inline(stripEmphasis(line.slice(last)));
+}
+
+/**
+ * Converts Markdown to clean text. Headings become sections, fenced code blocks
+ * are taken out of the text, and links keep only their text with the target
+ * recorded separately.
+ */
+export function parseMarkdown(source: string): ParsedDocument {
+  const builder = new DocumentBuilder();
+  const withoutComments = source.replace(/<!--[\s\S]*?-->/g, '');
+  // YAML front matter is metadata for static site generators, not content
+  const body = withoutComments.replace(/^---\r?\n[\s\S]*?\r?\n---\r?\n/, '');
+  const lines = body.split(/\r?\n/);
+
+  const references = new Map<string, string>();
+  for (const line of lines) {
+    const definition = line.match(REFERENCE_DEFINITION);
+    if (definition) references.set(definition[1].toLowerCase(), definition[2]);
+  }
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+
+    const fence = line.match(FENCE);
+    if (fence) {
+      const closing = new RegExp(`^ {0,3}${fence[1][0]}{${fence[1].length},}\\s*$`);
+      const code: string[] = [];
+      while (i + 1 < lines.length && !closing.test(lines[i + 1])) code.push(lines[++i]);
+      i++;
+      builder.codeBlock(fence[2], code.join('\n'));
+      continue;
+    }
+
+    const atx = line.match(ATX_HEADING);
+    if (atx) {
+      builder.heading(atx[1].length, headingText(atx[2], references));
+      continue;
+    }
+
+    const underline = lines[i + 1]?.match(SETEXT_UNDERLINE);
+    if (underline && line.trim() !== '' && !LIST_MARKER.test(line) && !BLOCKQUOTE.test(line)) {
+      builder.heading(underline[1][0] === '=' ? 1 : 2, headingText(line.trim(), references));
+      i++;
+      continue;
+    }
+
+    if (line.trim() === '') {
+      builder.paragraphBreak();
+      continue;
+    }
+    if (THEMATIC_BREAK.test(line) || REFERENCE_DEFINITION.test(line) || (TABLE_DIVIDER.test(line) && line.includes('-'))) {
+      continue;
+    }
+
+    let content = line.replace(BLOCKQUOTE, '');
+    if (LIST_MARKER.test(content)) {
+      content = content.replace(LIST_MARKER, '');
+    } else if (/^\s*\|.*\|\s*$/.test(content)) {
+      content = content.trim().slice(1, -1).split('|').map(cell => cell.trim()).join(' | ');
+    }
+
+    builder.lineBreak();
+    appendMarkdownInline(builder, content.trim(), references);
+  }
+
+  return builder.finish('markdown');
+}
+
+function headingText(raw: string, references: Map<string, string>): string {
+  // Links in headings keep their text; the target is not worth a separate record
+  const builder = new DocumentBuilder();
+  appendMarkdownInline(builder, raw, references);
+  return builder.finish('markdown').text;
+}
+
+const SKIPPED_ELEMENTS = new Set(['script', 'style', 'noscript', 'template', 'head', 'svg', 'iframe', 'canvas']);
+const BLOCK_ELEMENTS = new Set([
+  'address', 'article', 'aside', 'blockquote', 'dd', 'details', 'div', 'dl', 'dt', 'fieldset', 'figcaption',
+  'figure', 'footer', 'form', 'header', 'hr', 'li', 'main', 'nav', 'ol', 'p', 'section', 'summary', 'table',
+  'tbody', 'thead', 'tfoot', 'tr', 'ul',
+]);
+
+/**
+ * Converts HTML to clean text with the browser's DOMParser. `h1`–`h6` become
+ * sections, `pre` blocks are taken out as code and anchors keep their text
+ * with the target recorded separately.
+ */
+export function parseHtml(source: string): ParsedDocument {
+  const doc = new DOMParser().parseFromString(source, 'text/html');
+  const builder = new DocumentBuilder();
+
+  const walk = (node: Node): void => {
+    if (node.nodeType === Node.TEXT_NODE) {
+      builder.inline((node.textContent ?? '').replace(/\s+/g, ' '));
+      return;
+    }
+    if (node.nodeType !== Node.ELEMENT_NODE) return;
+
+    const element = node as Element;
+    const tag = element.tagName.toLowerCase();
+    if (SKIPPED_ELEMENTS.has(tag)) return;
+
+    const heading = tag.match(/^h([1-6])$/);
+    if (heading) {
+      const text = (element.textContent ?? '').replace(/\s+/g, ' ').trim();
+      if (text) builder.heading(Number(heading[1]), text);
+      return;
+    }
+
+    if (tag === 'pre') {
+      const code = element.querySelector('code') ?? element;
+      const language = Array.from(code.classList).find(c => /^(language|lang)-/.test(c))?.replace(/^(language|lang)-/, '') ?? '';
+      builder.codeBlock(language, code.textContent ?? '');
+      return;
+    }
+
+    if (tag === 'a' && element.getAttribute('href')) {
+      const text = (element.textContent ?? '').replace(/\s+/g, ' ').trim();
+      if (text) builder.link(text, element.getAttribute('href')!);
+      return;
+    }
+
+    if (tag === 'br') {
+      builder.lineBreak();
+      return;
+    }
+    if (tag === 'td' || tag === 'th') {
+      if (element.previousElementSibling) builder.inline(' | ');
+    }
+
+    // List items and table rows sit on their own line, other blocks are paragraphs
+    const breakBlock = !BLOCK_ELEMENTS.has(tag)
+      ? () => {}
+      : tag === 'li' || tag === 'tr' ? () => builder.lineBreak() : () => builder.paragraphBreak();
+    breakBlock();
+    element.childNodes.forEach(walk);
+    breakBlock();
+  };
+
+  walk(doc.body);
+  const parsed = builder.finish('html');
+  return { ...parsed, title: doc.title.trim() || parsed.title };
+}
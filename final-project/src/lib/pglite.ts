@@ -1,29 +1,219 @@
-import { PGlite } from '@electric-sql/pglite';
+import { PGlite, type Transaction } from '@electric-sql/pglite';
 import { vector } from '@electric-sql/pglite/vector';
+import { SchemaMigrator } from './migrations';
+import { CollectionService } from './collections';
+
+export type VectorIndexType = 'exact' | 'hnsw' | 'ivfflat';
+
+export type VectorIndexConfig =
+  | { type: 'exact' }
+  | { type: 'hnsw'; m: number; efConstruction: number }
+  | { type: 'ivfflat'; lists: number };
+
+export interface VectorIndexStatus {
+  type: VectorIndexType;
+  // Build parameters as stored by Postgres, e.g. { m: 16, ef_construction: 64 }
+  params: Record<string, number>;
+  sizeBytes: number;
+  rowCount: number;
+}
+
+export const DEFAULT_INDEX_CONFIGS = {
+  hnsw: { type: 'hnsw', m: 16, efConstruction: 64 },
+  ivfflat: { type: 'ivfflat', lists: 100 },
+  exact: { type: 'exact' },
+} as const satisfies Record<VectorIndexType, VectorIndexConfig>;
+
+const VECTOR_INDEX_NAME = 'chunks_embedding_idx';
 
 export class VectorDatabase {
-  private static instance: PGlite | null = null;
+  // Shared by concurrent callers so the database is only opened and migrated once
+  private static instance: Promise<PGlite> | null = null;
+  // Operations started through `withDatabase` that have not finished yet
+  private static operations = 0;
+
+  /**
+   * The database of the active collection.
+   */
+  static getInstance(): Promise<PGlite> {
+    if (!this.instance) {
+      this.instance = this.open().catch((error) => {
+        // Allow a later call to retry instead of caching the failure
+        this.instance = null;
+        throw error;
+      });
+    }
+    return this.instance;
+  }
 
-  static async getInstance(): Promise<PGlite> {
-    if (this.instance) return this.instance;
+  /**
+   * Runs an operation against the database of the active collection. The
+   * collection cannot be switched or deleted while any operation is running,
+   * so the database is never closed under one.
+   */
+  static async withDatabase<T>(operation: (db: PGlite) => Promise<T>): Promise<T> {
+    this.operations++;
+    try {
+      return await operation(await this.getInstance());
+    } finally {
+      this.operations--;
+    }
+  }
+
+  /**
+   * Closes the open database and opens the one of another collection, which
+   * is created and migrated on first use.
+   * @throws Error if a database operation is still running.
+   */
+  static async switchCollection(id: string): Promise<void> {
+    this.assertIdle();
+    const previous = this.instance;
+    this.instance = null;
+    CollectionService.setActive(id);
+    await previous?.then(db => db.close(), () => {});
+    await this.getInstance();
+  }
 
-    this.instance = new PGlite('idb://vector-meanings-db', {
+  /**
+   * Deletes a collection together with its storage. The active collection
+   * has to be switched away from first. The collection stays registered if its
+   * storage cannot be deleted, e.g. because another tab still has it open.
+   */
+  static async deleteCollection(id: string): Promise<void> {
+    this.assertIdle();
+    if (id === CollectionService.getActive().id) throw new Error('The active collection cannot be deleted');
+    const dataDir = CollectionService.dataDir(id);
+    await new Promise<void>((resolve, reject) => {
+      const request = indexedDB.deleteDatabase(`/pglite/${dataDir.replace(/^idb:\/\//, '')}`);
+      request.onsuccess = () => resolve();
+      request.onerror = () => reject(request.error);
+      request.onblocked = () => reject(new Error('The collection is still open in another tab. Close it there and try again.'));
+    });
+    CollectionService.remove(id);
+  }
+
+  private static assertIdle(): void {
+    if (this.operations > 0) {
+      throw new Error('Wait for the running database operations, e.g. an import, to finish first');
+    }
+  }
+
+  private static async open(): Promise<PGlite> {
+    const db = new PGlite(CollectionService.dataDir(CollectionService.getActive().id), {
       extensions: { vector },
     });
 
-    await this.instance.waitReady;
-    await this.instance.exec('CREATE EXTENSION IF NOT EXISTS vector');
-    
-    await this.instance.exec(`
-      CREATE TABLE IF NOT EXISTS documents (
-        id SERIAL PRIMARY KEY,
-        content TEXT NOT NULL,
-        embedding vector(384),
-        metadata JSONB DEFAULT '{}',
-        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
-      )
-    `);
+    await db.waitReady;
+    await db.exec('CREATE EXTENSION IF NOT EXISTS vector');
 
-    return this.instance;
+    try {
+      await SchemaMigrator.migrate(db);
+    } catch (error) {
+      await db.close();
+      throw error;
+    }
+
+    return db;
+  }
+
+  /**
+   * Replaces the ANN index on chunk embeddings. `exact` drops the index so
+   * searches fall back to a sequential scan with exact results.
+   * @param tx Runs the change as part of a larger transaction instead of its own.
+   */
+  static async createIndex(config: VectorIndexConfig, tx?: Transaction): Promise<void> {
+    if (!tx) {
+      return this.withDatabase((db) => db.transaction((tx) => this.createIndex(config, tx)));
+    }
+
+    await tx.exec(`DROP INDEX IF EXISTS ${VECTOR_INDEX_NAME}`);
+
+    switch (config.type) {
+      case 'hnsw':
+        await tx.exec(`
+          CREATE INDEX ${VECTOR_INDEX_NAME} ON chunks USING hnsw (embedding vector_cosine_ops)
+          WITH (m = ${positiveInt(config.m)}, ef_construction = ${positiveInt(config.efConstruction)})
+        `);
+        break;
+      case 'ivfflat':
+        await tx.exec(`
+          CREATE INDEX ${VECTOR_INDEX_NAME} ON chunks USING ivfflat (embedding vector_cosine_ops)
+          WITH (lists = ${positiveInt(config.lists)})
+        `);
+        break;
+      case 'exact':
+        break;
+    }
+  }
+
+  /**
+   * Rebuilds the current index from scratch, e.g. after bulk ingestion.
+   * IVFFlat in particular picks its list centroids at build time.
+   */
+  static async rebuildIndex(): Promise<void> {
+    return this.withDatabase(async (db) => {
+      const status = await this.getIndexStatus();
+      if (status.type !== 'exact') {
+        await db.exec(`REINDEX INDEX ${VECTOR_INDEX_NAME}`);
+      }
+    });
+  }
+
+  /**
+   * The config that would recreate the current index, e.g. after the column it
+   * is built on had to be dropped or retyped.
+   */
+  static async currentIndexConfig(): Promise<VectorIndexConfig> {
+    const { type, params } = await this.getIndexStatus();
+    switch (type) {
+      case 'hnsw':
+        return {
+          type,
+          m: params.m ?? DEFAULT_INDEX_CONFIGS.hnsw.m,
+          efConstruction: params.ef_construction ?? DEFAULT_INDEX_CONFIGS.hnsw.efConstruction,
+        };
+      case 'ivfflat':
+        return { type, lists: params.lists ?? DEFAULT_INDEX_CONFIGS.ivfflat.lists };
+      case 'exact':
+        return { type };
+    }
+  }
+
+  static async getIndexStatus(): Promise<VectorIndexStatus> {
+    return this.withDatabase(async (db) => {
+      const [index, count] = await Promise.all([
+        db.query<{ method: VectorIndexType; reloptions: string[] | null; size: number }>(
+          `SELECT am.amname AS method, c.reloptions, pg_relation_size(c.oid)::int AS size
+           FROM pg_class c
+           JOIN pg_am am ON am.oid = c.relam
+           WHERE c.relname = $1 AND c.relkind = 'i'`,
+          [VECTOR_INDEX_NAME]
+        ),
+        db.query<{ count: number }>('SELECT count(*)::int AS count FROM chunks'),
+      ]);
+
+      const row = index.rows[0];
+      const params = Object.fromEntries(
+        (row?.reloptions ?? []).map(option => {
+          const [key, value] = option.split('=');
+          return [key, Number(value)];
+        })
+      );
+
+      return {
+        type: row?.method ?? 'exact',
+        params,
+        sizeBytes: row?.size ?? 0,
+        rowCount: count.rows[0].count,
+      };
+    });
+  }
+}
+
+// Index parameters are interpolated into DDL, so only accept plain positive integers
+function positiveInt(value: number): number {
+  if (!Number.isInteger(value) || value < 1) {
+    throw new Error(`Invalid index parameter: ${value}`);
   }
+  return value;
 }
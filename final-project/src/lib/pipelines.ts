@@ -0,0 +1,213 @@
+import { pipeline, AutoTokenizer, AutoModelForSequenceClassification, TextStreamer, InterruptableStoppingCriteria, type FeatureExtractionPipeline, type Text2TextGenerationPipeline, type Text2TextGenerationOutput, type PreTrainedTokenizer, type PreTrainedModel } from '@huggingface/transformers';
+
+// The Transformers.js side of the AI services. Everything in here runs inside
+// the AI worker, or on the main thread when workers are unavailable.
+
+// Define a type for the progress callback information
+type ProgressInfo = {
+  status: string;
+  progress?: number;
+  [key: string]: unknown;
+};
+
+export type AIEvent =
+  | { type: 'progress'; model: string; progress: number }
+  // A piece of generated text, emitted as soon as the model produces it
+  | { type: 'token'; text: string };
+
+export type EmitEvent = (event: AIEvent) => void;
+
+export type GeneratorName = 'answer' | 'general';
+
+export type EmbeddingPooling = 'mean' | 'cls';
+
+export interface GenerationOptions {
+  max_new_tokens: number;
+  temperature: number;
+  do_sample: boolean;
+}
+
+type ProgressCallback = (info: ProgressInfo) => void;
+
+// How the generators are called: one prompt gives one output, and `stopping_criteria`
+// is passed on to `generate` although the pipeline's types leave it out
+type TextGenerator = Pick<Text2TextGenerationPipeline, 'tokenizer'> & ((
+  prompt: string,
+  options: GenerationOptions & { streamer: TextStreamer; stopping_criteria: InterruptableStoppingCriteria }
+) => Promise<Text2TextGenerationOutput>);
+
+// The tasks this module loads, and what `pipeline` returns for each
+interface PipelinesByTask {
+  'feature-extraction': FeatureExtractionPipeline;
+  'text2text-generation': TextGenerator;
+}
+
+// `pipeline` is typed for every task at once, a union too complex for TypeScript
+// to check a call against, so it is narrowed to the tasks used here
+const loadPipeline = pipeline as unknown as <T extends keyof PipelinesByTask>(
+  task: T,
+  model: string,
+  options: { progress_callback: ProgressCallback }
+) => Promise<PipelinesByTask[T]>;
+
+interface SharedLoad<T> {
+  promise: Promise<T>;
+  // Everyone waiting for the load, so concurrent callers all see its progress
+  listeners: Set<EmitEvent>;
+  settled: boolean;
+}
+
+/**
+ * Loads a model once and shares the promise with every caller. A failed load
+ * is forgotten, so a later call retries instead of getting the cached failure.
+ */
+function sharedLoad<T>(loads: Map<string, SharedLoad<T>>, model: string, emit: EmitEvent, load: (progress_callback: ProgressCallback) => Promise<T>): Promise<T> {
+  let entry = loads.get(model);
+  if (!entry) {
+    const listeners = new Set<EmitEvent>();
+    const progress_callback = (info: ProgressInfo) => {
+      if (info.status === 'progress' && info.progress !== undefined) {
+        const event: AIEvent = { type: 'progress', model, progress: info.progress };
+        listeners.forEach(listener => listener(event));
+      }
+    };
+    const created: SharedLoad<T> = {
+      listeners,
+      settled: false,
+      promise: load(progress_callback).then(
+        (value) => {
+          created.settled = true;
+          listeners.clear();
+          return value;
+        },
+        (error) => {
+          loads.delete(model);
+          throw error;
+        }
+      ),
+    };
+    entry = created;
+    loads.set(model, entry);
+  }
+  if (!entry.settled) entry.listeners.add(emit);
+  return entry.promise;
+}
+
+// Define a cache of embedding pipelines, one per model, since the corpus can be re-embedded with another model
+class EmbeddingPipeline {
+  static task = 'feature-extraction' as const;
+  static instances = new Map<string, SharedLoad<FeatureExtractionPipeline>>();
+
+  static getInstance(model: string, emit: EmitEvent) {
+    return sharedLoad(this.instances, model, emit, (progress_callback) =>
+      loadPipeline(this.task, model, { progress_callback })
+    );
+  }
+}
+
+// Define a singleton class for the answer generation pipeline
+class AnswerPipeline {
+  static task = 'text2text-generation' as const;
+  static model = 'Xenova/flan-t5-small';
+  static instance = new Map<string, SharedLoad<TextGenerator>>();
+
+  static getInstance(emit: EmitEvent) {
+    return sharedLoad(this.instance, this.model, emit, (progress_callback) =>
+      loadPipeline(this.task, this.model, { progress_callback })
+    );
+  }
+}
+
+// Define a singleton class for the general knowledge pipeline
+class GeneralKnowledgePipeline {
+  static task = 'text2text-generation' as const;
+  // This model is larger and better at general instruction-following and Q&A
+  static model = 'Xenova/LaMini-Flan-T5-248M';
+  static instance = new Map<string, SharedLoad<TextGenerator>>();
+
+  static getInstance(emit: EmitEvent) {
+    return sharedLoad(this.instance, this.model, emit, (progress_callback) =>
+      loadPipeline(this.task, this.model, { progress_callback })
+    );
+  }
+}
+
+// Define a singleton class for the cross-encoder used to re-rank search results.
+// The text-classification pipeline cannot take sentence pairs, so the tokenizer
+// and model are loaded directly.
+class RerankerPipeline {
+  static model = 'Xenova/ms-marco-MiniLM-L-6-v2';
+  static instance = new Map<string, SharedLoad<{ tokenizer: PreTrainedTokenizer; model: PreTrainedModel }>>();
+
+  static getInstance(emit: EmitEvent) {
+    return sharedLoad(this.instance, this.model, emit, (progress_callback) =>
+      Promise.all([
+        AutoTokenizer.from_pretrained(this.model, { progress_callback }),
+        AutoModelForSequenceClassification.from_pretrained(this.model, { progress_callback }),
+      ]).then(([tokenizer, model]) => ({ tokenizer, model }))
+    );
+  }
+}
+
+const GENERATORS = {
+  answer: AnswerPipeline,
+  general: GeneralKnowledgePipeline,
+};
+
+const tokenizers = new Map<string, SharedLoad<PreTrainedTokenizer>>();
+
+function getTokenizer(model: string, emit: EmitEvent): Promise<PreTrainedTokenizer> {
+  return sharedLoad(tokenizers, model, emit, (progress_callback) => AutoTokenizer.from_pretrained(model, { progress_callback }));
+}
+
+/**
+ * The operations exposed over the worker RPC layer. Each handler takes a single
+ * structured-cloneable argument, an `emit` callback for progress and token
+ * events, and a signal that is aborted when the caller cancels.
+ */
+export const handlers = {
+  async loadEmbedding({ model }: { model: string }, emit: EmitEvent): Promise<void> {
+    await EmbeddingPipeline.getInstance(model, emit);
+  },
+
+  async embed({ texts, model, pooling }: { texts: string[]; model: string; pooling: EmbeddingPooling }, emit: EmitEvent): Promise<number[][]> {
+    const extractor = await EmbeddingPipeline.getInstance(model, emit);
+    const output = await extractor(texts, { pooling, normalize: true });
+    return output.tolist() as number[][];
+  },
+
+  // Streams the answer as token events. Aborting `signal` ends generation after the current token.
+  async generate({ generator, prompt, options }: { generator: GeneratorName; prompt: string; options: GenerationOptions }, emit: EmitEvent, signal?: AbortSignal): Promise<string> {
+    const instance = await GENERATORS[generator].getInstance(emit);
+    const stoppingCriteria = new InterruptableStoppingCriteria();
+    if (signal?.aborted) return '';
+    signal?.addEventListener('abort', () => stoppingCriteria.interrupt());
+
+    const streamer = new TextStreamer(instance.tokenizer, {
+      skip_prompt: true,
+      skip_special_tokens: true,
+      callback_function: (text: string) => emit({ type: 'token', text }),
+    });
+    const [result] = await instance(prompt, { ...options, streamer, stopping_criteria: stoppingCriteria });
+    return result.generated_text;
+  },
+
+  // Relevance of each passage to the query, between 0 and 1, in passage order
+  async rerank({ query, passages }: { query: string; passages: string[] }, emit: EmitEvent): Promise<number[]> {
+    if (passages.length === 0) return [];
+    const { tokenizer, model } = await RerankerPipeline.getInstance(emit);
+    const inputs = tokenizer(new Array(passages.length).fill(query), { text_pair: passages, padding: true, truncation: true });
+    const { logits } = await model(inputs);
+    return (logits.sigmoid().tolist() as number[][]).map(([score]) => score);
+  },
+
+  async countTokens({ model, texts }: { model: string; texts: string[] }, emit: EmitEvent): Promise<number[]> {
+    const tokenizer = await getTokenizer(model, emit);
+    return texts.map(text => tokenizer.encode(text, { add_special_tokens: false }).length);
+  },
+};
+
+export type AIHandlers = typeof handlers;
+export type AIMethod = keyof AIHandlers;
+export type AIArgs<M extends AIMethod> = Parameters<AIHandlers[M]>[0];
+export type AIResult<M extends AIMethod> = Awaited<ReturnType<AIHandlers[M]>>;
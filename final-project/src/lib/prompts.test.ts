@@ -0,0 +1,63 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { parseStructuredAnswer } from './prompts';
+
+describe('parseStructuredAnswer', () => {
+  it('splits reasoning from the final answer', () => {
+    expect(parseStructuredAnswer('Reasoning: It is big.\nFinal Answer: Jupiter.')).toEqual({ answer: 'Jupiter.', reasoning: 'It is big.' });
+  });
+
+  it('splits on the last marker', () => {
+    expect(parseStructuredAnswer('Final Answer: maybe\nFinal Answer: Saturn')).toEqual({ answer: 'Saturn', reasoning: 'Final Answer: maybe' });
+  });
+
+  it('takes the whole output as the answer when the marker is missing', () => {
+    expect(parseStructuredAnswer('  Reasoning: Mars is red.  ')).toEqual({ answer: 'Mars is red.', reasoning: null });
+    expect(parseStructuredAnswer('Final Answer: Venus')).toEqual({ answer: 'Venus', reasoning: null });
+  });
+});
+
+describe('PromptTemplateRegistry', () => {
+  // The registry reads localStorage once, when the module loads
+  async function load(stored?: Record<string, unknown>) {
+    localStorage.clear();
+    if (stored) localStorage.setItem('vector-meanings-prompts', JSON.stringify(stored));
+    vi.resetModules();
+    return (await import('./prompts')).PromptTemplateRegistry;
+  }
+
+  beforeEach(() => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  it('rejects unknown and missing variables', async () => {
+    const registry = await load();
+
+    expect(() => registry.validate('rewrite', '{{question}} {{context}}')).toThrow('Unknown variable: {{context}}');
+    expect(() => registry.validate('answer', '{{question}}')).toThrow('Missing variable: {{context}}');
+    expect(() => registry.set('answer', '{{question}}')).toThrow('Missing variable');
+    expect(registry.isCustomized('answer')).toBe(false);
+  });
+
+  it('renders overrides and leaves unknown placeholders alone', async () => {
+    const registry = await load();
+    registry.set('general', 'Q: {{question}}');
+
+    expect(registry.render('general', { question: 'Why?' })).toBe('Q: Why?');
+    expect(registry.missingOptionalVariables('answer', '{{context}} {{question}}')).toEqual(['history']);
+  });
+
+  it('sets aside stored overrides that no longer validate but keeps them stored', async () => {
+    const registry = await load({ answer: 'Old {{question}}', general: '{{question}}!', unknown: 'x' });
+
+    expect(registry.rejectedOverride('answer')).toEqual({ template: 'Old {{question}}', error: 'Missing variable: {{context}}' });
+    expect(registry.isCustomized('answer')).toBe(false);
+    expect(registry.get('general')).toBe('{{question}}!');
+
+    registry.reset('general');
+    expect(JSON.parse(localStorage.getItem('vector-meanings-prompts')!)).toEqual({ answer: 'Old {{question}}' });
+
+    registry.reset('answer');
+    expect(registry.rejectedOverride('answer')).toBeNull();
+    expect(localStorage.getItem('vector-meanings-prompts')).toBe('{}');
+  });
+});
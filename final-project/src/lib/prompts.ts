@@ -0,0 +1,240 @@
+export type PromptTemplateId = 'answer' | 'general' | 'rewrite';
+
+export interface PromptTemplateInfo {
+  id: PromptTemplateId;
+  label: string;
+  description: string;
+  // Variables the template must contain, written as {{name}}
+  variables: string[];
+  // Variables the template may leave out
+  optionalVariables: string[];
+  defaultTemplate: string;
+}
+
+/**
+ * A generated answer split into the model's reasoning and its final answer.
+ */
+export interface StructuredAnswer {
+  answer: string;
+  // Null when the output has no final-answer marker
+  reasoning: string | null;
+}
+
+/**
+ * A stored override that no longer passes validation, e.g. one saved before a
+ * variable became required. It is kept so it can be fixed, but not used.
+ */
+export interface RejectedOverride {
+  template: string;
+  error: string;
+}
+
+type Overrides = Partial<Record<PromptTemplateId, string>>;
+
+const STORAGE_KEY = 'vector-meanings-prompts';
+
+// Templates ask for this marker before the answer, and `parseStructuredAnswer` splits on it
+export const FINAL_ANSWER_MARKER = 'Final Answer:';
+
+const REASONING_MARKER = 'Reasoning:';
+
+const VARIABLE = /\{\{\s*(\w+)\s*\}\}/g;
+
+export const PROMPT_TEMPLATES: PromptTemplateInfo[] = [
+  {
+    id: 'answer',
+    label: 'Document answer',
+    description: 'Answers from the retrieved passages, which {{context}} lists by number',
+    variables: ['context', 'question'],
+    // Empty outside conversation mode
+    optionalVariables: ['history'],
+    defaultTemplate: `Based on the following numbered context passages, please reason step-by-step to answer the user's question.
+After each claim, cite the passages that support it by number, like [1] or [2][3].
+Write your reasoning first, then the answer after "${FINAL_ANSWER_MARKER}".
+
+Context:
+---
+{{context}}
+---
+{{history}}
+Question:
+{{question}}
+
+${REASONING_MARKER}`,
+  },
+  {
+    id: 'general',
+    label: 'World knowledge answer',
+    description: "Answers from the model's pre-trained knowledge alone",
+    variables: ['question'],
+    optionalVariables: [],
+    defaultTemplate: `Please provide a concise and accurate answer to the following question.
+
+Question:
+{{question}}
+
+Answer:`,
+  },
+  {
+    id: 'rewrite',
+    label: 'Follow-up rewrite',
+    description: 'Turns a follow-up question in a conversation into one that can be searched on its own',
+    variables: ['history', 'question'],
+    optionalVariables: [],
+    defaultTemplate: `Rewrite the follow-up question as a standalone question that can be understood without the conversation.
+Replace pronouns like "it" or "they" with what they refer to. Keep it short.
+
+Conversation:
+{{history}}
+
+Follow-up question: {{question}}
+
+Standalone question:`,
+  },
+];
+
+export class PromptTemplateError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PromptTemplateError';
+  }
+}
+
+/**
+ * The prompts the answer services send to the generation models. Each has a
+ * default that can be overridden; overrides are kept in localStorage and apply
+ * to every collection.
+ */
+export class PromptTemplateRegistry {
+  private static rejected: Partial<Record<PromptTemplateId, RejectedOverride>> = {};
+  private static overrides: Overrides = this.load();
+
+  static info(id: PromptTemplateId): PromptTemplateInfo {
+    const info = PROMPT_TEMPLATES.find(t => t.id === id);
+    if (!info) throw new Error(`Unknown prompt template: ${id}`);
+    return info;
+  }
+
+  // The override if there is one, otherwise the default
+  static get(id: PromptTemplateId): string {
+    return this.overrides[id] ?? this.info(id).defaultTemplate;
+  }
+
+  static isCustomized(id: PromptTemplateId): boolean {
+    return this.overrides[id] !== undefined;
+  }
+
+  // The stored override set aside at load because it is no longer valid, if any
+  static rejectedOverride(id: PromptTemplateId): RejectedOverride | null {
+    return this.rejected[id] ?? null;
+  }
+
+  /**
+   * Optional variables a template leaves out, whose values then never reach the
+   * model, e.g. {{history}} in an answer template saved before conversations existed.
+   */
+  static missingOptionalVariables(id: PromptTemplateId, template = this.get(id)): string[] {
+    const used = usedVariables(template);
+    return this.info(id).optionalVariables.filter(name => !used.has(name));
+  }
+
+  /**
+   * Overrides a template.
+   * @throws PromptTemplateError if it uses an unknown variable or leaves out a required one.
+   */
+  static set(id: PromptTemplateId, template: string): void {
+    this.validate(id, template);
+    delete this.rejected[id];
+    this.save({ ...this.overrides, [id]: template });
+  }
+
+  static reset(id: PromptTemplateId): void {
+    const overrides = { ...this.overrides };
+    delete overrides[id];
+    delete this.rejected[id];
+    this.save(overrides);
+  }
+
+  /**
+   * Fills in a template's variables.
+   */
+  static render(id: PromptTemplateId, variables: Record<string, string>): string {
+    return this.get(id).replace(VARIABLE, (match, name: string) => variables[name] ?? match);
+  }
+
+  static validate(id: PromptTemplateId, template: string): void {
+    const { variables, optionalVariables } = this.info(id);
+    const used = usedVariables(template);
+    const unknown = Array.from(used).filter(name => !variables.includes(name) && !optionalVariables.includes(name));
+    if (unknown.length > 0) {
+      throw new PromptTemplateError(`Unknown variable${unknown.length > 1 ? 's' : ''}: ${unknown.map(name => `{{${name}}}`).join(', ')}`);
+    }
+    const missing = variables.filter(name => !used.has(name));
+    if (missing.length > 0) {
+      throw new PromptTemplateError(`Missing variable${missing.length > 1 ? 's' : ''}: ${missing.map(name => `{{${name}}}`).join(', ')}`);
+    }
+  }
+
+  private static save(overrides: Overrides): void {
+    this.overrides = overrides;
+    // Rejected overrides stay stored until they are replaced or reset
+    const rejected = Object.fromEntries(Object.entries(this.rejected).map(([id, { template }]) => [id, template]));
+    localStorage.setItem(STORAGE_KEY, JSON.stringify({ ...rejected, ...overrides }));
+  }
+
+  // Stored overrides are checked against the current variables, which may have changed since they were saved
+  private static load(): Overrides {
+    const overrides: Overrides = {};
+    for (const [id, template] of Object.entries(loadStored())) {
+      const info = PROMPT_TEMPLATES.find(t => t.id === id);
+      if (!info || typeof template !== 'string') continue;
+      try {
+        this.validate(info.id, template);
+        overrides[info.id] = template;
+      } catch (error) {
+        if (!(error instanceof PromptTemplateError)) throw error;
+        console.warn(`Ignoring the saved "${info.label}" template: ${error.message}`);
+        this.rejected[info.id] = { template, error: error.message };
+      }
+    }
+    return overrides;
+  }
+}
+
+/**
+ * Splits generated text on the final-answer marker. Models do not always
+ * follow the format, so when the marker is missing the whole output (minus a
+ * leading "Reasoning:") is taken as the answer and `reasoning` is null.
+ */
+export function parseStructuredAnswer(output: string): StructuredAnswer {
+  const text = output.trim();
+  const markerIndex = text.lastIndexOf(FINAL_ANSWER_MARKER);
+  if (markerIndex === -1) {
+    return { answer: stripMarker(text, REASONING_MARKER), reasoning: null };
+  }
+
+  const reasoning = stripMarker(text.slice(0, markerIndex), REASONING_MARKER);
+  return {
+    answer: text.slice(markerIndex + FINAL_ANSWER_MARKER.length).trim(),
+    reasoning: reasoning || null,
+  };
+}
+
+function stripMarker(text: string, marker: string): string {
+  const trimmed = text.trim();
+  return trimmed.startsWith(marker) ? trimmed.slice(marker.length).trim() : trimmed;
+}
+
+function usedVariables(template: string): Set<string> {
+  return new Set(Array.from(template.matchAll(VARIABLE), match => match[1]));
+}
+
+function loadStored(): Record<string, unknown> {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    if (saved) return JSON.parse(saved) as Record<string, unknown>;
+  } catch (error) {
+    console.error('Failed to load prompt templates', error);
+  }
+  return {};
+}
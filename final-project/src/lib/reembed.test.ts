@@ -0,0 +1,83 @@
+import type { PGlite } from '@electric-sql/pglite';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { fakeAICall } from '../test/ai-worker';
+import { openTestDatabase } from '../test/database';
+import { AIWorker } from './ai-worker';
+import { FixedSizeChunker } from './chunking';
+import { IngestionService } from './ingestion';
+import { ModelRegistry } from './models';
+import { VectorDatabase } from './pglite';
+import { ReembedService } from './reembed';
+import { SearchService } from './search';
+
+vi.mock('./ai-worker', () => ({ AIWorker: { call: vi.fn() } }));
+
+const MPNET = ModelRegistry.get('Xenova/all-mpnet-base-v2');
+
+let db: PGlite;
+
+beforeEach(async () => {
+  vi.mocked(AIWorker.call).mockReset().mockImplementation(fakeAICall);
+  db = await openTestDatabase();
+  await IngestionService.ingest('Saturn has rings.Jupiter is large.Mars is very red.', {}, { strategy: new FixedSizeChunker({ size: 17, overlap: 0 }) });
+});
+
+afterEach(async () => {
+  await db.close();
+});
+
+// Texts embedded with `model` so far
+function embeddedWith(model: string): string[] {
+  return vi.mocked(AIWorker.call).mock.calls.flatMap(([method, args]) => {
+    const { texts, model: used } = args as { texts?: string[]; model?: string };
+    return method === 'embed' && used === model ? texts! : [];
+  });
+}
+
+async function storedModels() {
+  const result = await db.query<{ embedding_model: string; dimension: number }>(
+    'SELECT DISTINCT embedding_model, vector_dims(embedding) AS dimension FROM chunks'
+  );
+  return result.rows;
+}
+
+describe('ReembedService.start', () => {
+  it('re-embeds every chunk and swaps the model, keeping the index', async () => {
+    await VectorDatabase.createIndex({ type: 'hnsw', m: 8, efConstruction: 32 });
+    const progress: number[] = [];
+
+    expect(await ReembedService.start(MPNET, ({ done }) => progress.push(done), 2)).toBe(true);
+
+    expect(progress).toEqual([0, 2, 3]);
+    expect(await storedModels()).toEqual([{ embedding_model: MPNET.id, dimension: 768 }]);
+    expect(await ModelRegistry.getActiveModel()).toBe(MPNET);
+    expect(await ReembedService.pendingTarget()).toBeNull();
+    expect(await VectorDatabase.getIndexStatus()).toMatchObject({ type: 'hnsw', params: { m: 8, ef_construction: 32 } });
+
+    // Queries are now embedded with the new model too
+    const [result] = await SearchService.search('Saturn rings', 1);
+    expect(result.content).toBe('Saturn has rings.');
+  });
+
+  it('keeps the active model when cancelled and resumes where it stopped', async () => {
+    const cancelled = await ReembedService.start(MPNET, ({ done }) => done === 1 && ReembedService.cancel(), 1);
+
+    expect(cancelled).toBe(false);
+    expect(ReembedService.isRunning()).toBe(false);
+    expect((await ModelRegistry.getActiveModel()).id).toBe('Xenova/all-MiniLM-L6-v2');
+    expect(await storedModels()).toEqual([{ embedding_model: 'Xenova/all-MiniLM-L6-v2', dimension: 384 }]);
+    expect(await ReembedService.pendingTarget()).toBe(MPNET);
+
+    expect(await ReembedService.start(MPNET)).toBe(true);
+    expect(embeddedWith(MPNET.id)).toEqual(['Saturn has rings.', 'Jupiter is large.', 'Mars is very red.']);
+  });
+
+  it('refuses to ingest chunks embedded with the previous model', async () => {
+    const rows = await IngestionService.prepareChunks(
+      IngestionService.storedDocument('Venus is hot.', {}), {}, new FixedSizeChunker()
+    );
+    await ReembedService.start(MPNET);
+
+    await expect(db.transaction(tx => IngestionService.upsertChunks(tx, 1, rows))).rejects.toThrow(`the corpus now uses ${MPNET.id}`);
+  });
+});
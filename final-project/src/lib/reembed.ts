@@ -0,0 +1,123 @@
+import { VectorDatabase } from './pglite';
+import { EmbeddingService } from './embeddings';
+import { ModelRegistry, type EmbeddingModel } from './models';
+
+export interface ReembedProgress {
+  model: EmbeddingModel;
+  done: number;
+  total: number;
+}
+
+const MIGRATION_SETTING = 'embedding_migration';
+
+export class ReembedService {
+  private static running: { cancelled: boolean } | null = null;
+
+  static isRunning(): boolean {
+    return this.running !== null;
+  }
+
+  /**
+   * The target of a job that was cancelled or interrupted by a reload, if any.
+   * Starting a job for the same model resumes it where it stopped.
+   */
+  static async pendingTarget(): Promise<EmbeddingModel | null> {
+    const id = await ModelRegistry.readSetting(MIGRATION_SETTING);
+    return id ? ModelRegistry.get(id) : null;
+  }
+
+  /**
+   * Re-embeds every chunk with `target` and then makes it the active model.
+   * New embeddings are staged next to the current ones, so search keeps working
+   * on the old model until the whole corpus has been migrated, and the switch
+   * itself happens in a single transaction.
+   * @returns True once the corpus uses `target`, false if the job was cancelled.
+   */
+  static async start(target: EmbeddingModel, onProgress?: (progress: ReembedProgress) => void, batchSize = 32): Promise<boolean> {
+    if (this.running) throw new Error('A re-embedding job is already running');
+    const job = { cancelled: false };
+    this.running = job;
+
+    try {
+      return await VectorDatabase.withDatabase(async (db) => {
+        const active = await ModelRegistry.getActiveModel();
+        if (active.id === target.id) {
+          await db.transaction((tx) => ModelRegistry.writeSetting(tx, MIGRATION_SETTING, null));
+          return true;
+        }
+        await db.transaction((tx) => ModelRegistry.writeSetting(tx, MIGRATION_SETTING, target.id));
+
+        for (;;) {
+          const counts = await db.query<{ total: number; done: number }>(
+            `SELECT count(*)::int AS total, count(*) FILTER (WHERE next_embedding_model = $1)::int AS done FROM chunks`,
+            [target.id]
+          );
+          onProgress?.({ model: target, ...counts.rows[0] });
+          if (job.cancelled) return false;
+
+          // Includes chunks staged for a different target by an abandoned job
+          const batch = await db.query<{ id: number; content: string }>(
+            `SELECT id, content FROM chunks WHERE next_embedding_model IS DISTINCT FROM $1 ORDER BY id LIMIT $2`,
+            [target.id, batchSize]
+          );
+          if (batch.rows.length === 0) {
+            if (await this.swap(target)) return true;
+            continue;
+          }
+
+          const embeddings = await EmbeddingService.generateBatch(batch.rows.map(row => row.content), batchSize, target);
+          await db.query(
+            `UPDATE chunks c SET next_embedding = v.embedding::vector, next_embedding_model = $3
+             FROM (SELECT unnest($1::int[]) AS id, unnest($2::text[]) AS embedding) v
+             WHERE c.id = v.id`,
+            [batch.rows.map(row => row.id), embeddings.map(e => JSON.stringify(e)), target.id]
+          );
+        }
+      });
+    } finally {
+      this.running = null;
+    }
+  }
+
+  /**
+   * Stops the running job after its current batch. Staged embeddings are kept
+   * so the job can be resumed later.
+   */
+  static cancel(): void {
+    if (this.running) this.running.cancelled = true;
+  }
+
+  /**
+   * Moves the staged embeddings into place and activates `target`, unless
+   * chunks were ingested after the last batch and still need embedding.
+   */
+  private static async swap(target: EmbeddingModel): Promise<boolean> {
+    return VectorDatabase.withDatabase(async (db) => {
+      const indexConfig = await VectorDatabase.currentIndexConfig();
+
+      return db.transaction(async (tx) => {
+        const remaining = await tx.query<{ count: number }>(
+          'SELECT count(*)::int AS count FROM chunks WHERE next_embedding_model IS DISTINCT FROM $1',
+          [target.id]
+        );
+        if (remaining.rows[0].count > 0) return false;
+
+        // The index depends on the column type, so it is dropped and rebuilt around the retype
+        await VectorDatabase.createIndex({ type: 'exact' }, tx);
+        await tx.exec(`
+          ALTER TABLE chunks ALTER COLUMN embedding TYPE vector;
+          UPDATE chunks SET
+            embedding = next_embedding,
+            embedding_model = next_embedding_model,
+            next_embedding = NULL,
+            next_embedding_model = NULL;
+          ALTER TABLE chunks ALTER COLUMN embedding TYPE vector(${target.dimension});
+        `);
+        await ModelRegistry.setActiveModel(tx, target);
+        await ModelRegistry.writeSetting(tx, MIGRATION_SETTING, null);
+        await VectorDatabase.createIndex(indexConfig, tx);
+        return true;
+      });
+    });
+  }
+}
@@ -0,0 +1,26 @@
+import { AIWorker, type ProgressCallback } from './ai-worker';
+import type { SearchResult } from './search';
+
+export class RerankService {
+  /**
+   * Re-orders search candidates by scoring each query/passage pair with a
+   * cross-encoder, which reads both texts together and is more precise than
+   * comparing their embeddings.
+   * @param query The user's question.
+   * @param candidates The top-N results from `SearchService.search`.
+   * @param topK How many of the re-ranked results to keep.
+   * @param onProgress An optional callback to track model loading progress.
+   * @returns The best `topK` candidates with `rerankScore` set, best first.
+   */
+  static async rerank(query: string, candidates: SearchResult[], topK = candidates.length, onProgress?: ProgressCallback): Promise<SearchResult[]> {
+    const scores = await AIWorker.call('rerank', {
+      query,
+      passages: candidates.map(c => c.content),
+    }, { onProgress });
+
+    return candidates
+      .map((candidate, index) => ({ ...candidate, rerankScore: scores[index] }))
+      .sort((a, b) => b.rerankScore - a.rerankScore)
+      .slice(0, topK);
+  }
+}
@@ -0,0 +1,118 @@
+import type { PGlite } from '@electric-sql/pglite';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { fakeAICall } from '../test/ai-worker';
+import { openTestDatabase } from '../test/database';
+import { AIWorker } from './ai-worker';
+import type { MetadataFilter } from './filters';
+import { IngestionService } from './ingestion';
+import { SearchService, type SearchResult } from './search';
+
+vi.mock('./ai-worker', () => ({ AIWorker: { call: vi.fn() } }));
+
+const DOCUMENTS = {
+  saturn: 'Saturn has bright rings made of ice.',
+  jupiter: 'Jupiter is the largest planet.',
+  uranus: 'Uranus also has faint rings.',
+  mars: 'Mars is a small red planet.',
+};
+
+const MOONS: Record<string, number> = { saturn: 146, jupiter: 95, uranus: 28, mars: 2 };
+
+let db: PGlite;
+
+beforeEach(async () => {
+  vi.mocked(AIWorker.call).mockImplementation(fakeAICall);
+  db = await openTestDatabase();
+  for (const [key, content] of Object.entries(DOCUMENTS)) {
+    await IngestionService.ingest(content, { planet: key, moons: MOONS[key] }, { key });
+  }
+});
+
+afterEach(async () => {
+  await db.close();
+});
+
+const planets = (results: SearchResult[]) => results.map(r => r.metadata.planet);
+
+describe('SearchService.search', () => {
+  it('ranks by vector similarity by default', async () => {
+    const results = await SearchService.search('largest planet Jupiter', 2);
+
+    expect(planets(results)).toEqual(['jupiter', 'mars']);
+    expect(results[0].fusedScore).toBe(results[0].vectorScore);
+    expect(results[0]).toMatchObject({ sourceTitle: DOCUMENTS.jupiter, chunkIndex: 0 });
+  });
+
+  it('matches any keyword and ranks chunks with more of them first', async () => {
+    const results = await SearchService.search('Saturn rings', 5, { mode: 'keyword' });
+
+    expect(planets(results)).toEqual(['saturn', 'uranus']);
+    expect(results[0].lexicalScore).toBeGreaterThan(results[1].lexicalScore);
+  });
+
+  it('keeps chunks with excluded keywords out', async () => {
+    expect(planets(await SearchService.search('rings -saturn', 5, { mode: 'keyword' }))).toEqual(['uranus']);
+    expect(planets(await SearchService.search('planet -"small red"', 5, { mode: 'keyword' }))).toEqual(['jupiter']);
+  });
+
+  it('finds no keyword matches for a query made only of exclusions or stopwords', async () => {
+    expect(await SearchService.search('-saturn', 5, { mode: 'keyword' })).toEqual([]);
+    expect(await SearchService.search('the of', 5, { mode: 'keyword' })).toEqual([]);
+
+    const hybrid = await SearchService.search('-saturn', 4, { mode: 'hybrid' });
+    expect(hybrid).toHaveLength(4);
+    expect(hybrid.every(r => r.lexicalScore === 0)).toBe(true);
+  });
+
+  it('adds up reciprocal ranks in hybrid mode', async () => {
+    const results = await SearchService.search('Saturn rings', 4, { mode: 'hybrid' });
+
+    // First in both rankings
+    expect(planets(results)[0]).toBe('saturn');
+    expect(results[0].fusedScore).toBeCloseTo(2 / 61);
+    // Ranked by vector similarity alone
+    expect(results.find(r => r.metadata.planet === 'mars')!.lexicalScore).toBe(0);
+  });
+
+  it('weights scaled keyword scores against vector scores', async () => {
+    const [best] = await SearchService.search('Saturn rings', 4, { mode: 'hybrid', fusion: 'weighted', vectorWeight: 0.25 });
+
+    // The best keyword match scales to 1
+    expect(best.metadata.planet).toBe('saturn');
+    expect(best.fusedScore).toBeCloseTo(0.25 * best.vectorScore + 0.75);
+  });
+});
+
+describe('SearchService.search with a metadata filter', () => {
+  it('restricts the vector ranking', async () => {
+    const results = await SearchService.search('largest planet Jupiter', 5, { filter: { op: 'eq', key: 'planet', value: 'mars' } });
+
+    expect(planets(results)).toEqual(['mars']);
+  });
+
+  it('restricts both rankings in hybrid mode', async () => {
+    const results = await SearchService.search('Saturn rings', 5, {
+      mode: 'hybrid',
+      filter: { op: 'range', key: 'moons', type: 'number', gte: 50 },
+    });
+
+    expect(planets(results)).toEqual(['saturn', 'jupiter']);
+  });
+
+  it('combines groups with keyword search', async () => {
+    const filter: MetadataFilter = {
+      op: 'and',
+      filters: [
+        { op: 'in', key: 'planet', values: ['saturn', 'uranus', 'mars'] },
+        { op: 'range', key: 'moons', type: 'number', lte: 100 },
+      ],
+    };
+
+    expect(planets(await SearchService.search('rings', 5, { mode: 'keyword', filter }))).toEqual(['uranus']);
+  });
+
+  it('matches nested keys and skips values of the wrong type', async () => {
+    expect(await SearchService.search('planet', 5, { filter: { op: 'eq', key: 'chunking.strategy', value: 'fixed' } })).toHaveLength(4);
+    expect(await SearchService.search('planet', 5, { filter: { op: 'range', key: 'planet', type: 'number', gte: 0 } })).toEqual([]);
+  });
+});
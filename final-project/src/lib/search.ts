@@ -1,31 +1,241 @@
+import type { Transaction } from '@electric-sql/pglite';
 import { EmbeddingService } from './embeddings';
 import { VectorDatabase } from './pglite';
+import { compileMetadataFilter, type MetadataFilter } from './filters';
 
 export interface SearchResult {
   id: number;
   content: string;
   metadata: Record<string, unknown>;
+  // Cosine similarity to the query, kept for existing callers (same as vectorScore)
   similarity: number;
+  sourceId: number;
+  sourceTitle: string;
+  chunkIndex: number;
+  vectorScore: number;
+  // ts_rank_cd of the chunk against the query; 0 when no query term matches
+  lexicalScore: number;
+  // The score results are ordered by, which depends on the search mode
+  fusedScore: number;
+  // Cross-encoder relevance, only set on results returned by RerankService
+  rerankScore?: number;
+}
+
+export type SearchMode = 'vector' | 'keyword' | 'hybrid';
+
+export type FusionMethod = 'rrf' | 'weighted';
+
+export interface SearchOptions {
+  // Candidate list size for HNSW index scans (pgvector default: 40)
+  efSearch?: number;
+  // Number of lists probed by IVFFlat index scans (pgvector default: 1)
+  probes?: number;
+  mode?: SearchMode;
+  // How hybrid mode merges the two rankings
+  fusion?: FusionMethod;
+  // Reciprocal rank fusion constant; larger values flatten the rank curve
+  rrfK?: number;
+  // Share of the vector score in weighted fusion, between 0 and 1
+  vectorWeight?: number;
+  // Hybrid mode pulls limit * candidateMultiplier candidates from each ranking
+  candidateMultiplier?: number;
+  // Restricts both rankings to chunks whose metadata matches
+  filter?: MetadataFilter;
+  // Re-ranks the candidates with Maximal Marginal Relevance to avoid near-duplicate results
+  mmr?: boolean;
+  // Trade-off between relevance (1) and diversity (0) for MMR
+  mmrLambda?: number;
+  // Drops results whose cosine similarity to the query is below this value
+  minSimilarity?: number;
+}
+
+/**
+ * Full-text query for a bound parameter. websearch_to_tsquery ANDs the terms,
+ * which is too strict for retrieval, so the terms are OR-ed instead while
+ * quoted phrases keep their word order. Negated terms (`-term`) still have to
+ * be absent, so they are ANDed with the OR of the others. Without any other
+ * term the query is empty and matches nothing, as one of only stopwords does.
+ */
+function toTsQuery(param: string): string {
+  return `(
+    SELECT CASE WHEN bool_or(term NOT LIKE '!%') THEN concat_ws(' & ',
+      '(' || string_agg(term, ' | ') FILTER (WHERE term NOT LIKE '!%') || ')',
+      string_agg(term, ' & ') FILTER (WHERE term LIKE '!%')
+    ) ELSE '' END::tsquery
+    FROM regexp_split_to_table(websearch_to_tsquery('english', ${param})::text, ' [&|] ') AS term
+    WHERE term <> ''
+  )`;
+}
+
+interface SearchRow {
+  id: number;
+  content: string;
+  metadata: Record<string, unknown>;
+  source_id: number;
+  chunk_index: number;
+  source_title: string;
+  vector_score: number;
+  lexical_score: number;
+  // Only fetched when MMR needs to compare candidates with each other
+  embedding: string | null;
 }
 
 export class SearchService {
-  static async search(query: string, limit = 5): Promise<SearchResult[]> {
-    const db = await VectorDatabase.getInstance();
-    const embedding = await EmbeddingService.generate(query);
-
-    const result = await db.query(
-      `SELECT id, content, metadata, 1 - (embedding <=> $1) as similarity
-       FROM documents
-       ORDER BY embedding <=> $1
+  static async search(query: string, limit = 5, options: SearchOptions = {}): Promise<SearchResult[]> {
+    return VectorDatabase.withDatabase(async (db) => {
+      const embedding = JSON.stringify(await EmbeddingService.generate(query));
+      const mode = options.mode ?? 'vector';
+      const pool = mode === 'hybrid' || options.mmr ? limit * (options.candidateMultiplier ?? 4) : limit;
+
+      // Index tuning is set per query with SET LOCAL semantics, so it needs its own transaction
+      const { rows, vectorRanking, lexicalRanking } = await db.transaction(async (tx) => {
+        if (options.efSearch !== undefined) {
+          await tx.query(`SELECT set_config('hnsw.ef_search', $1, true)`, [String(options.efSearch)]);
+        }
+        if (options.probes !== undefined) {
+          await tx.query(`SELECT set_config('ivfflat.probes', $1, true)`, [String(options.probes)]);
+        }
+
+        const vectorRanking = mode === 'keyword' ? [] : await this.vectorCandidates(tx, embedding, pool, options.filter);
+        const lexicalRanking = mode === 'vector' ? [] : await this.lexicalCandidates(tx, query, pool, options.filter);
+        const ids = Array.from(new Set([...vectorRanking, ...lexicalRanking]));
+
+        const result = await tx.query<SearchRow>(
+          `SELECT c.id, c.content, c.metadata, c.source_id, c.chunk_index, s.title AS source_title,
+                  1 - (c.embedding <=> $1) AS vector_score,
+                  ts_rank_cd(c.content_tsv, ${toTsQuery('$2')}) AS lexical_score,
+                  ${options.mmr ? 'c.embedding::text' : 'NULL'} AS embedding
+           FROM chunks c
+           JOIN sources s ON s.id = c.source_id
+           WHERE c.id = ANY($3)`,
+          [embedding, query, ids]
+        );
+
+        return { rows: result.rows, vectorRanking, lexicalRanking };
+      });
+
+      const fusedScores = this.fuse(rows, vectorRanking, lexicalRanking, mode, options);
+      const candidates = rows
+        .filter(row => options.minSimilarity === undefined || row.vector_score >= options.minSimilarity)
+        .sort((a, b) => (fusedScores.get(b.id) ?? 0) - (fusedScores.get(a.id) ?? 0));
+      const selected = options.mmr
+        ? this.maximalMarginalRelevance(candidates, fusedScores, limit, options.mmrLambda ?? 0.5)
+        : candidates.slice(0, limit);
+
+      return selected
+        .map(row => ({
+          id: row.id,
+          content: row.content,
+          metadata: row.metadata,
+          similarity: row.vector_score,
+          sourceId: row.source_id,
+          sourceTitle: row.source_title,
+          chunkIndex: row.chunk_index,
+          vectorScore: row.vector_score,
+          lexicalScore: row.lexical_score,
+          fusedScore: fusedScores.get(row.id) ?? 0,
+        }));
+    });
+  }
+
+  /**
+   * Chunk ids ordered by cosine distance to the query embedding.
+   */
+  private static async vectorCandidates(tx: Transaction, embedding: string, limit: number, filter?: MetadataFilter): Promise<number[]> {
+    const params: unknown[] = [embedding, limit];
+    const where = filter ? compileMetadataFilter(filter, params) : 'TRUE';
+    const result = await tx.query<{ id: number }>(
+      `SELECT c.id FROM chunks c WHERE ${where} ORDER BY c.embedding <=> $1 LIMIT $2`,
+      params
+    );
+    return result.rows.map(row => row.id);
+  }
+
+  /**
+   * Chunk ids matching the query terms, ordered by full-text rank.
+   */
+  private static async lexicalCandidates(tx: Transaction, query: string, limit: number, filter?: MetadataFilter): Promise<number[]> {
+    const params: unknown[] = [query, limit];
+    const where = filter ? compileMetadataFilter(filter, params) : 'TRUE';
+    const result = await tx.query<{ id: number }>(
+      `SELECT c.id
+       FROM chunks c, (SELECT ${toTsQuery('$1')} AS tsq) q
+       WHERE c.content_tsv @@ q.tsq AND ${where}
+       ORDER BY ts_rank_cd(c.content_tsv, q.tsq) DESC
        LIMIT $2`,
-      [JSON.stringify(embedding), limit]
+      params
     );
+    return result.rows.map(row => row.id);
+  }
+
+  /**
+   * Greedily picks the candidate that best balances relevance against its
+   * similarity to the results already picked. Relevance is the fused score
+   * scaled to [0, 1] so the lambda trade-off means the same in every mode.
+   * The returned order is the selection order.
+   */
+  private static maximalMarginalRelevance(candidates: SearchRow[], scores: Map<number, number>, limit: number, lambda: number): SearchRow[] {
+    const weight = Math.min(1, Math.max(0, lambda));
+    const maxScore = Math.max(0, ...candidates.map(row => scores.get(row.id) ?? 0));
+    const relevance = (row: SearchRow) => maxScore > 0 ? (scores.get(row.id) ?? 0) / maxScore : 0;
+    const embeddings = new Map(candidates.map(row => [row.id, row.embedding ? JSON.parse(row.embedding) as number[] : []]));
+
+    const remaining = [...candidates];
+    const selected: SearchRow[] = [];
+    while (selected.length < limit && remaining.length > 0) {
+      let bestIndex = 0;
+      let bestScore = -Infinity;
+      remaining.forEach((row, index) => {
+        const redundancy = Math.max(0, ...selected.map(picked => cosineSimilarity(embeddings.get(row.id)!, embeddings.get(picked.id)!)));
+        const score = weight * relevance(row) - (1 - weight) * redundancy;
+        if (score > bestScore) {
+          bestScore = score;
+          bestIndex = index;
+        }
+      });
+      selected.push(...remaining.splice(bestIndex, 1));
+    }
+    return selected;
+  }
+
+  /**
+   * Computes the score each result is ordered by. Single-mode searches use the
+   * raw score of that ranking; hybrid searches merge both rankings.
+   */
+  private static fuse(rows: SearchRow[], vectorRanking: number[], lexicalRanking: number[], mode: SearchMode, options: SearchOptions): Map<number, number> {
+    if (mode === 'vector') return new Map(rows.map(row => [row.id, row.vector_score]));
+    if (mode === 'keyword') return new Map(rows.map(row => [row.id, row.lexical_score]));
+
+    if ((options.fusion ?? 'rrf') === 'rrf') {
+      const k = options.rrfK ?? 60;
+      const scores = new Map<number, number>();
+      for (const ranking of [vectorRanking, lexicalRanking]) {
+        ranking.forEach((id, index) => {
+          scores.set(id, (scores.get(id) ?? 0) + 1 / (k + index + 1));
+        });
+      }
+      return scores;
+    }
+
+    // ts_rank_cd is unbounded, so scale it against the best lexical match first
+    const weight = Math.min(1, Math.max(0, options.vectorWeight ?? 0.5));
+    const maxLexical = Math.max(0, ...rows.map(row => row.lexical_score));
+    return new Map(rows.map(row => [
+      row.id,
+      weight * row.vector_score + (1 - weight) * (maxLexical > 0 ? row.lexical_score / maxLexical : 0),
+    ]));
+  }
+}
 
-    return result.rows.map((row: any) => ({
-      id: row.id,
-      content: row.content,
-      metadata: row.metadata,
-      similarity: row.similarity
-    }));
+// Same measure as pgvector's <=> operator, computed client-side for candidate pairs
+function cosineSimilarity(a: number[], b: number[]): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
   }
+  return normA > 0 && normB > 0 ? dot / Math.sqrt(normA * normB) : 0;
 }
@@ -0,0 +1,101 @@
+import { VectorDatabase } from './pglite';
+import { IngestionService, type ChunkReport } from './ingestion';
+import type { ChunkingStrategy } from './chunking';
+
+export interface Source {
+  id: number;
+  title: string;
+  origin: string;
+  // Set for uploaded files, which are replaced in place when uploaded again
+  key: string | null;
+  hash: string;
+  metadata: Record<string, unknown>;
+  createdAt: string;
+  chunkCount: number;
+}
+
+interface SourceRow {
+  id: number;
+  title: string;
+  origin: string;
+  key: string | null;
+  hash: string;
+  metadata: Record<string, unknown>;
+  created_at: Date;
+  chunk_count: number;
+}
+
+export class SourceService {
+  static async list(): Promise<Source[]> {
+    return VectorDatabase.withDatabase(async (db) => {
+      const result = await db.query<SourceRow>(
+        `SELECT s.id, s.title, s.origin, s.key, s.hash, s.metadata, s.created_at, count(c.id)::int AS chunk_count
+         FROM sources s
+         LEFT JOIN chunks c ON c.source_id = s.id
+         GROUP BY s.id
+         ORDER BY s.id DESC`
+      );
+
+      return result.rows.map(row => ({
+        id: row.id,
+        title: row.title,
+        origin: row.origin,
+        key: row.key,
+        hash: row.hash,
+        metadata: row.metadata,
+        createdAt: new Date(row.created_at).toISOString(),
+        chunkCount: row.chunk_count,
+      }));
+    });
+  }
+
+  static async rename(id: number, title: string): Promise<void> {
+    return VectorDatabase.withDatabase(async (db) => {
+      await db.query('UPDATE sources SET title = $1 WHERE id = $2', [title, id]);
+    });
+  }
+
+  /**
+   * Deletes a source together with all of its chunks.
+   */
+  static async remove(id: number): Promise<void> {
+    return VectorDatabase.withDatabase(async (db) => {
+      await db.query('DELETE FROM sources WHERE id = $1', [id]);
+    });
+  }
+
+  /**
+   * Re-chunks the stored content of a source and brings its chunks up to date
+   * in one transaction. Only chunks that are not stored yet are embedded, and
+   * stored chunks the new chunking no longer produces are deleted. Without a
+   * strategy, the one recorded at ingest is reused.
+   */
+  static async reingest(id: number, strategy?: ChunkingStrategy): Promise<ChunkReport> {
+    return VectorDatabase.withDatabase(async (db) => {
+      const result = await db.query<{ content: string; metadata: Record<string, unknown> }>(
+        'SELECT content, metadata FROM sources WHERE id = $1',
+        [id]
+      );
+      if (result.rows.length === 0) throw new Error(`Source ${id} not found`);
+
+      const { content, metadata: { structure, ...metadata } } = result.rows[0];
+      // Set by the legacy migration when the old chunks could not be joined back without repeating text
+      if (metadata.rechunkable === false) throw new Error(`Source ${id} was migrated from overlapping chunks and cannot be re-chunked`);
+      strategy ??= IngestionService.recordedStrategy(metadata);
+      const sourceMetadata = { ...metadata, chunking: { strategy: strategy.name, ...strategy.params } };
+      const document = IngestionService.storedDocument(content, { structure });
+      const stored = await db.query<{ content_hash: string }>('SELECT content_hash FROM chunks WHERE source_id = $1', [id]);
+      const rows = await IngestionService.prepareChunks(
+        document, sourceMetadata, strategy, undefined, new Set(stored.rows.map(row => row.content_hash))
+      );
+
+      return db.transaction(async (tx) => {
+        await tx.query(
+          'UPDATE sources SET metadata = $1 WHERE id = $2',
+          [JSON.stringify(structure ? { ...sourceMetadata, structure } : sourceMetadata), id]
+        );
+        return IngestionService.upsertChunks(tx, id, rows);
+      });
+    });
+  }
+}
@@ -0,0 +1,37 @@
+import type { AIWorker } from '../lib/ai-worker';
+import { ModelRegistry } from '../lib/models';
+import type { AIArgs, AIMethod } from '../lib/pipelines';
+
+/**
+ * Bag-of-words embedding: every word adds to one dimension, so texts that
+ * share words are similar. Enough to make vector rankings predictable.
+ */
+export function fakeEmbedding(text: string, dimension: number): number[] {
+  const embedding = new Array<number>(dimension).fill(0);
+  for (const word of text.toLowerCase().split(/\W+/).filter(Boolean)) {
+    let hash = 0;
+    for (const char of word) hash = (hash * 31 + char.charCodeAt(0)) >>> 0;
+    embedding[hash % dimension] += 1;
+  }
+  const norm = Math.hypot(...embedding) || 1;
+  return embedding.map(value => value / norm);
+}
+
+/**
+ * Stands in for `AIWorker.call` where services run without models: embeddings
+ * come from `fakeEmbedding` and every word is one token.
+ */
+export const fakeAICall = (async (method: AIMethod, args: unknown) => {
+  switch (method) {
+    case 'loadEmbedding':
+      return undefined;
+    case 'embed': {
+      const { texts, model } = args as AIArgs<'embed'>;
+      return texts.map(text => fakeEmbedding(text, ModelRegistry.get(model).dimension));
+    }
+    case 'countTokens':
+      return (args as AIArgs<'countTokens'>).texts.map(text => text.split(/\s+/).filter(Boolean).length);
+    default:
+      throw new Error(`No fake for AIWorker.call('${method}')`);
+  }
+}) as typeof AIWorker.call;
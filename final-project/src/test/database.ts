@@ -0,0 +1,21 @@
+import { PGlite } from '@electric-sql/pglite';
+import { vector } from '@electric-sql/pglite/vector';
+import { vi } from 'vitest';
+import { CollectionService } from '../lib/collections';
+import { MIGRATIONS, SchemaMigrator } from '../lib/migrations';
+import { VectorDatabase } from '../lib/pglite';
+
+/**
+ * Opens an in-memory database, migrated up to `version`, and makes it the one
+ * the services query. Every call activates a new collection, so state kept per
+ * collection, such as the active embedding model, does not leak between tests.
+ */
+export async function openTestDatabase(version = Infinity): Promise<PGlite> {
+  const db = new PGlite({ extensions: { vector } });
+  await db.exec('CREATE EXTENSION IF NOT EXISTS vector');
+  await SchemaMigrator.migrate(db, MIGRATIONS.filter(m => m.version <= version));
+
+  CollectionService.setActive(CollectionService.create(`Test ${crypto.randomUUID()}`).id);
+  vi.spyOn(VectorDatabase, 'getInstance').mockResolvedValue(db);
+  return db;
+}
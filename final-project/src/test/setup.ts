@@ -0,0 +1,13 @@
+// The registries read localStorage when their modules load, which Node does not have
+const storage = new Map<string, string>();
+
+globalThis.localStorage = {
+  get length() {
+    return storage.size;
+  },
+  key: (index: number) => Array.from(storage.keys())[index] ?? null,
+  getItem: (key: string) => storage.get(key) ?? null,
+  setItem: (key: string, value: string) => void storage.set(key, String(value)),
+  removeItem: (key: string) => void storage.delete(key),
+  clear: () => storage.clear(),
+};
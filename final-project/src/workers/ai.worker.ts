@@ -0,0 +1,40 @@
+import { handlers, type AIEvent, type AIMethod } from '../lib/pipelines';
+
+export type AIRequest =
+  | { type: 'call'; id: number; method: AIMethod; args: unknown }
+  // Stops a running call early, e.g. generation the user no longer wants to wait for
+  | { type: 'cancel'; id: number };
+
+export type AIResponse =
+  | { id: number; type: 'event'; event: AIEvent }
+  | { id: number; type: 'result'; result: unknown }
+  | { id: number; type: 'error'; message: string };
+
+// Calls still running, so they can be cancelled
+const running = new Map<number, AbortController>();
+
+function respond(response: AIResponse) {
+  self.postMessage(response);
+}
+
+self.addEventListener('message', async (e: MessageEvent<AIRequest>) => {
+  const request = e.data;
+  if (request.type === 'cancel') {
+    running.get(request.id)?.abort();
+    return;
+  }
+
+  const { id, method, args } = request;
+  const handler = handlers[method] as (args: unknown, emit: (event: AIEvent) => void, signal: AbortSignal) => Promise<unknown>;
+  const controller = new AbortController();
+  running.set(id, controller);
+
+  try {
+    const result = await handler(args, (event) => respond({ id, type: 'event', event }), controller.signal);
+    respond({ id, type: 'result', result });
+  } catch (error) {
+    respond({ id, type: 'error', message: error instanceof Error ? error.message : String(error) });
+  } finally {
+    running.delete(id);
+  }
+});
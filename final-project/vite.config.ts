@@ -1,3 +1,4 @@
+/// <reference types="vitest/config" />
 import { defineConfig } from 'vite'
 import react from '@vitejs/plugin-react'
 import tailwindcss from '@tailwindcss/vite'
@@ -23,7 +24,16 @@ export default defineConfig({
     // Set the custom Hugging Face Hub URL for Transformers.js
     'process.env.HUGGING_FACE_HUB_URL': JSON.stringify('/huggingface-hub'),
   },
+  // The AI worker imports Transformers.js, which relies on code-splitting
+  worker: {
+    format: 'es',
+  },
   optimizeDeps: {
     exclude: ['@electric-sql/pglite'],
   },
+  test: {
+    setupFiles: ['./src/test/setup.ts'],
+    // Database tests start PGlite, which takes a few seconds the first time in each file
+    testTimeout: 30000,
+  },
 })